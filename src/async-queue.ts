@@ -0,0 +1,265 @@
+import { TaskPool } from "~/task-pool";
+import { enqueue, waitFor, WaitOptions } from "~/waiter";
+
+export interface AsyncQueueOptions<T> {
+    /** Maximum number of times an item is delivered before it is dead-lettered, defaults to Infinity */
+    maxAttempts?: number;
+    /** How long in ms to wait before redelivering an item that was rejected, defaults to 0 */
+    retryDelayMs?: number;
+    /** Called with an item that has run out of attempts, and the error of its last attempt */
+    onDeadLetter?: (value: T, error: any, deliveries: number) => void;
+}
+
+export interface EnqueueOptions {
+    /** Makes the item available after this many ms */
+    delayMs?: number;
+    /** Makes the item available at this time */
+    at?: Date | number;
+}
+
+export interface NackOptions {
+    /** How long in ms to wait before redelivering, overriding the queue's `retryDelayMs` */
+    delayMs?: number;
+}
+
+export interface ProcessOptions {
+    /** Number of items handled at once, defaults to 1 */
+    concurrency?: number;
+    /** Stops taking new items when aborted */
+    signal?: AbortSignal;
+}
+
+/**
+ * An item received from the queue, which must be acknowledged once it has been handled.
+ */
+export interface Delivery<T> {
+    value: T;
+    /** The number of times the item has been delivered, including this time */
+    deliveries: number;
+    /**
+     * Marks the item as handled, removing it from the queue.
+     * @returns false if it was already acknowledged or rejected
+     */
+    ack: () => boolean;
+    /**
+     * Marks the item as failed, so it is redelivered, or dead-lettered once it runs out of attempts.
+     * @returns false if it was already acknowledged or rejected
+     */
+    nack: (error?: any, options?: NackOptions) => boolean;
+}
+
+interface Entry<T> {
+    value: T;
+    deliveries: number;
+    readyAt: number;
+}
+
+/**
+ * An in-process work queue, consumed by one or more workers.
+ *
+ * Items received with `receive()` are acknowledged with `ack()` once handled, or rejected with `nack()`
+ * to be redelivered, up to `maxAttempts` times. An item that is neither stays in flight, and is
+ * never redelivered. Items can be delayed, or scheduled for a later time.
+ *
+ * @example
+ * const emails = new AsyncQueue<Email>({
+ *     maxAttempts: 3,
+ *     retryDelayMs: 1000,
+ *     onDeadLetter: (email, error) => log.error("Giving up on email", email, error),
+ * });
+ *
+ * emails.enqueue(welcome);
+ * emails.enqueue(reminder, { delayMs: 60_000 });
+ *
+ * await emails.process(email => send(email), { concurrency: 4, signal });
+ */
+export class AsyncQueue<T> {
+    private readonly maxAttempts: number;
+    private readonly retryDelayMs: number;
+    private readonly onDeadLetter?: (value: T, error: any, deliveries: number) => void;
+    private ready: Entry<T>[] = [];
+    private delayed: Entry<T>[] = [];
+    private receivers: Array<(entry: Entry<T>) => void> = [];
+    private unacked: number = 0;
+    private timerId?: ReturnType<typeof setTimeout>;
+
+    public constructor(options: AsyncQueueOptions<T> = {}) {
+        const { maxAttempts = Infinity, retryDelayMs = 0, onDeadLetter } = options;
+        if (maxAttempts !== Infinity && (maxAttempts <= 0 || !Number.isInteger(maxAttempts))) {
+            throw new Error("AsyncQueue maxAttempts must be a positive integer");
+        }
+        this.maxAttempts = maxAttempts;
+        this.retryDelayMs = retryDelayMs;
+        this.onDeadLetter = onDeadLetter;
+    }
+
+    /**
+     * The number of items ready to be received.
+     */
+    public get size(): number {
+        return this.ready.length;
+    }
+
+    /**
+     * The number of items waiting for their delay to pass.
+     */
+    public get scheduled(): number {
+        return this.delayed.length;
+    }
+
+    /**
+     * The number of items received, but not yet acknowledged.
+     */
+    public get inFlight(): number {
+        return this.unacked;
+    }
+
+    /**
+     * The number of consumers waiting for an item.
+     */
+    public get waiting(): number {
+        return this.receivers.length;
+    }
+
+    /**
+     * Adds an item to the back of the queue, or schedules it for later.
+     */
+    public enqueue(value: T, options: EnqueueOptions = {}): void {
+        const { delayMs = 0, at } = options;
+        const readyAt = at === undefined ? Date.now() + delayMs : new Date(at).getTime();
+        this.add({ value, deliveries: 0, readyAt });
+    }
+
+    /**
+     * Receives the next item, waiting until one is ready. The item must be acknowledged once handled.
+     * @param options Optional signal and timeout to stop waiting
+     */
+    public async receive(options: WaitOptions = {}): Promise<Delivery<T>> {
+        options.signal?.throwIfAborted();
+        const entry = this.ready.shift();
+        if (entry) {
+            return this.deliver(entry);
+        }
+
+        return waitFor<Delivery<T>>(options, grant => {
+            return enqueue(this.receivers, (entry: Entry<T>) => grant(this.deliver(entry)));
+        });
+    }
+
+    /**
+     * Takes the next item, waiting until one is ready. The item is acknowledged straight away,
+     * so it is never redelivered.
+     * @param options Optional signal and timeout to stop waiting
+     */
+    public async dequeue(options?: WaitOptions): Promise<T> {
+        const delivery = await this.receive(options);
+        delivery.ack();
+        return delivery.value;
+    }
+
+    /**
+     * Handles items on a TaskPool, where each task takes one item once it has a slot. An item is acknowledged
+     * when the handler resolves, and rejected for redelivery when it throws.
+     * Runs until the signal aborts, then resolves once the handlers in progress have finished.
+     */
+    public async process(
+        handler: (value: T, delivery: Delivery<T>) => Promise<void> | void,
+        options: ProcessOptions = {}
+    ): Promise<void> {
+        const { concurrency = 1, signal } = options;
+        const pool = new TaskPool<void>(concurrency);
+
+        // only receive once the task has a slot, leaving items for other consumers while busy
+        const take = async () => {
+            const delivery = await this.receive({ signal });
+            try {
+                await handler(delivery.value, delivery);
+                delivery.ack();
+            } catch (error) {
+                delivery.nack(error);
+            }
+        };
+
+        while (!signal?.aborted) {
+            // a task only rejects when aborted, while waiting for a slot or an item
+            pool.submit(take, { signal }).catch(() => {});
+            // keep one task queued, submitting the next once it has a slot
+            await pool.onEmpty();
+        }
+
+        await pool.onIdle();
+    }
+
+    private add(entry: Entry<T>): void {
+        if (entry.readyAt > Date.now()) {
+            const index = this.delayed.findIndex(other => other.readyAt > entry.readyAt);
+            this.delayed.splice(index < 0 ? this.delayed.length : index, 0, entry);
+            this.schedule();
+            return;
+        }
+        this.ready.push(entry);
+        this.dispatch();
+    }
+
+    private deliver(entry: Entry<T>): Delivery<T> {
+        entry.deliveries++;
+        this.unacked++;
+        let settled = false;
+        const settle = () => {
+            if (settled) return false;
+            settled = true;
+            this.unacked--;
+            return true;
+        };
+        return {
+            value: entry.value,
+            deliveries: entry.deliveries,
+            ack: settle,
+            nack: (error?: any, options: NackOptions = {}) => {
+                if (!settle()) return false;
+                if (entry.deliveries >= this.maxAttempts) {
+                    try {
+                        this.onDeadLetter?.(entry.value, error, entry.deliveries);
+                    } catch {
+                        // the item has already left the queue, so a broken callback must not fail the caller
+                    }
+                } else {
+                    entry.readyAt = Date.now() + (options.delayMs ?? this.retryDelayMs);
+                    this.add(entry);
+                }
+                return true;
+            },
+        };
+    }
+
+    /**
+     * Hands ready items to waiting consumers, in order.
+     */
+    private dispatch(): void {
+        while (this.ready.length > 0 && this.receivers.length > 0) {
+            const receiver = this.receivers.shift();
+            const entry = this.ready.shift();
+            if (receiver && entry) receiver(entry);
+        }
+    }
+
+    /**
+     * Sets a timer for when the next delayed item becomes ready.
+     */
+    private schedule(): void {
+        clearTimeout(this.timerId);
+        this.timerId = undefined;
+        if (this.delayed.length === 0) {
+            return;
+        }
+        const ms = Math.max(0, this.delayed[0].readyAt - Date.now());
+        this.timerId = setTimeout(() => {
+            const now = Date.now();
+            while (this.delayed.length > 0 && this.delayed[0].readyAt <= now) {
+                this.ready.push(this.delayed.shift() as Entry<T>);
+            }
+            this.dispatch();
+            this.schedule();
+        }, ms);
+    }
+}
@@ -1,4 +1,6 @@
-import { RetryError, TimeoutError } from "~/error";
+import { CancelledError, RetryError, TimeoutError } from "~/error";
+import { RetryEvent } from "~/metrics";
+import { ABORTABLE, invoke, isAbortable, linkSignals, splitSignal } from "~/signal";
 
 export type Fn<A extends any[] = any[], R = any> = (...args: A) => R;
 export type AsyncFn<A extends any[] = any[], R = any> = (...args: A) => Promise<R>;
@@ -16,6 +18,16 @@ export interface Deferred<T> {
 
 type MapPromise<T> = { [K in keyof T]: Promise<T[K]> };
 
+/**
+ * A duration in ms, or a duration paired with an `AbortSignal` that cancels the timer.
+ */
+export type Duration = number | TimerOptions;
+
+export interface TimerOptions {
+    ms: number;
+    signal?: AbortSignal;
+}
+
 /**
  * Use within an async function.
  * `await` this to have non-blocking sleep before resuming flow.
@@ -23,11 +35,12 @@ type MapPromise<T> = { [K in keyof T]: Promise<T[K]> };
  * @example
  * await sleep(1000);           // sleeps for 1 second
  * await sleep(1000, "hello");  // sleeps for 1 second, resolves to "hello"
+ * await sleep({ ms: 1000, signal }); // rejects with the signal's reason if aborted
  */
-export function sleep(ms: number): Promise<void>;
-export function sleep<T>(ms: number, value: T): Promise<T>;
-export function sleep<T>(ms: number, value?: T): Promise<T> {
-    return new Promise(pass => setTimeout(() => pass(value as T), ms));
+export function sleep(ms: Duration): Promise<void>;
+export function sleep<T>(ms: Duration, value: T): Promise<T>;
+export function sleep<T>(ms: Duration, value?: T): Promise<T> {
+    return schedule<T>(ms, pass => pass(value as T));
 }
 
 /**
@@ -37,8 +50,8 @@ export function sleep<T>(ms: number, value?: T): Promise<T> {
  * @example
  * await timeout(1000);       // sleeps for 1 second and throws a TimeoutError
  */
-export function timeout<T = void>(ms: number, error?: any): Promise<T> {
-    return new Promise((_, fail) => setTimeout(() => fail(error ?? new TimeoutError()), ms));
+export function timeout<T = void>(ms: Duration, error?: any): Promise<T> {
+    return schedule<T>(ms, (_, fail) => fail(error ?? new TimeoutError()));
 }
 
 /**
@@ -53,9 +66,39 @@ export function timeout<T = void>(ms: number, error?: any): Promise<T> {
  *
  * // delay a function call, with eager args
  * const x = await delay(5000, fetchPost, userId, postId);
+ *
+ * // cancel the delay, the function is never called
+ * const x = await delay({ ms: 5000, signal }, fetchPost, userId, postId);
  */
-export function delay<F extends Fn>(ms: number, fn: F, ...args: Parameters<F>): Promise<ReturnType<F>> {
-    return new Promise(pass => setTimeout(() => pass(fn(...args)), ms));
+export function delay<F extends Fn>(ms: Duration, fn: F, ...args: Parameters<F>): Promise<ReturnType<F>> {
+    return schedule<ReturnType<F>>(ms, pass => pass(fn(...args)));
+}
+
+function timerOptions(duration: Duration): TimerOptions {
+    return typeof duration === "number" ? { ms: duration } : duration;
+}
+
+/**
+ * Runs `onTime` once the duration elapses, unless the signal aborts first,
+ * in which case the timer is cleared and the promise rejects with the signal's reason.
+ */
+function schedule<T>(duration: Duration, onTime: (pass: Resolve<T>, fail: Reject) => void): Promise<T> {
+    const { ms, signal } = timerOptions(duration);
+    return new Promise<T>((pass, fail) => {
+        if (signal?.aborted) {
+            fail(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timerId);
+            fail(signal?.reason);
+        };
+        const timerId = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            onTime(pass, fail);
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
 }
 
 /**
@@ -65,6 +108,147 @@ export function nextTick<F extends Fn>(fn: F, ...args: Parameters<F>): Promise<R
     return delay(0, fn, ...args);
 }
 
+export interface DebounceOptions {
+    /** Calls at the start of a burst, defaults to false */
+    leading?: boolean;
+    /** Calls at the end of a burst with the latest arguments, defaults to true */
+    trailing?: boolean;
+    /** Maximum time in ms a call may be held back before it is made */
+    maxWait?: number;
+}
+
+export interface ThrottleOptions {
+    /** Calls at the start of each interval, defaults to true */
+    leading?: boolean;
+    /** Calls at the end of each interval with the latest arguments, defaults to true */
+    trailing?: boolean;
+}
+
+/**
+ * A debounced or throttled function, which resolves each caller with the result of the call that was made for them.
+ */
+export type Debounced<A extends any[], R> = AsyncFn<A, Awaited<R>> & {
+    /** Makes the pending call straight away, if there is one */
+    flush: () => void;
+    /** Drops the pending call, rejecting its callers with the reason, defaults to a CancelledError */
+    cancel: (reason?: any) => void;
+};
+
+/**
+ * Creates a function that delays calling `fn` until `waitMs` has passed without it being called again.
+ *
+ * Every caller in a burst receives the result of the one call that is made for it, with the latest arguments.
+ * With `leading`, the first caller of a burst gets an immediate call, and later callers share its result
+ * unless `trailing` is also set.
+ *
+ * @example
+ * const search = debounce((query: string) => fetchResults(query), 300);
+ * const [a, b] = await Promise.all([search("h"), search("he")]); // both get the results for "he"
+ */
+export function debounce<A extends any[], R>(
+    fn: Fn<A, R>,
+    waitMs: number,
+    options: DebounceOptions = {}
+): Debounced<A, R> {
+    const { leading = false, trailing = true, maxWait } = options;
+    if (!leading && !trailing) {
+        throw new Error("Debounce needs a leading or trailing edge");
+    }
+
+    let timerId: ReturnType<typeof setTimeout> | undefined;
+    let maxTimerId: ReturnType<typeof setTimeout> | undefined;
+    let lastArgs: A | undefined;
+    let waiters: Deferred<Awaited<R>>[] = [];
+    let leadingResult: Promise<Awaited<R>> | undefined;
+
+    const run = (args: A) => new Promise<Awaited<R>>(resolve => resolve(fn(...args) as Awaited<R>));
+
+    const fire = () => {
+        clearTimeout(maxTimerId);
+        maxTimerId = undefined;
+        const batch = waiters.splice(0);
+        const args = lastArgs;
+        lastArgs = undefined;
+        if (args === undefined || batch.length === 0) {
+            return;
+        }
+        run(args).then(
+            value => batch.forEach(waiter => waiter.resolve(value)),
+            error => batch.forEach(waiter => waiter.reject(error))
+        );
+    };
+
+    const end = () => {
+        clearTimeout(timerId);
+        timerId = undefined;
+        leadingResult = undefined;
+    };
+
+    const debounced = (...args: A): Promise<Awaited<R>> => {
+        const starting = timerId === undefined;
+        clearTimeout(timerId);
+        timerId = setTimeout(() => {
+            end();
+            fire();
+        }, waitMs);
+        if (maxWait !== undefined && maxTimerId === undefined) {
+            maxTimerId = setTimeout(() => {
+                if (waiters.length > 0) {
+                    fire();
+                } else {
+                    // nothing is held back, so the next caller starts a new burst
+                    end();
+                    maxTimerId = undefined;
+                }
+            }, maxWait);
+        }
+
+        if (starting && leading) {
+            leadingResult = run(args);
+            return leadingResult;
+        }
+        if (!trailing && leadingResult) {
+            return leadingResult;
+        }
+        const waiter = deferred<Awaited<R>>();
+        waiters.push(waiter);
+        lastArgs = args;
+        return waiter.promise;
+    };
+
+    return Object.assign(debounced, {
+        flush: () => {
+            end();
+            fire();
+        },
+        cancel: (reason: any = new CancelledError()) => {
+            end();
+            clearTimeout(maxTimerId);
+            maxTimerId = undefined;
+            lastArgs = undefined;
+            waiters.splice(0).forEach(waiter => waiter.reject(reason));
+        },
+    });
+}
+
+/**
+ * Creates a function that calls `fn` at most once every `waitMs`.
+ *
+ * The first caller gets an immediate call, and callers within the interval share the result of
+ * the next call at the end of it, with the latest arguments.
+ *
+ * @example
+ * const save = throttle((doc: Doc) => api.save(doc), 1000);
+ */
+export function throttle<A extends any[], R>(
+    fn: Fn<A, R>,
+    waitMs: number,
+    options: ThrottleOptions = {}
+): Debounced<A, R> {
+    const { leading = true, trailing = true } = options;
+    return debounce(fn, waitMs, { leading, trailing, maxWait: waitMs });
+}
+
 /**
  * Collects all the values in an async iterator into a promised array.
  */
@@ -85,55 +269,339 @@ export function lift<A extends any[], R>(fn: (...args: A) => R) {
 }
 
 /**
- * Decorate an async function to add a timeout
+ * An async function made with `abortable()`, which can be cancelled.
+ * Callers may pass an `AbortSignal` after its arguments.
+ */
+export type Abortable<A extends any[], R> = ((...args: [...A, AbortSignal?]) => Promise<R>) & {
+    readonly [ABORTABLE]: (signal: AbortSignal, ...args: A) => Promise<R>;
+};
+
+/**
+ * Makes an async function cancellable, by having it take an `AbortSignal` before its arguments.
+ *
+ * Decorators such as `withTimeout` and `withRetry` only pass their signal to abortable functions,
+ * and leave the arguments of other functions untouched. Decorating an abortable function
+ * returns another abortable function, so a signal flows through every layer.
+ *
+ * @example
+ * const fetchUser = abortable((signal, id: string) => fetch(`/users/${id}`, { signal }));
+ * const fetchUserSafely = withRetry(withTimeout(fetchUser, 5000), 3);
+ * await fetchUserSafely("123", controller.signal);
+ */
+export function abortable<A extends any[], R>(fn: (signal: AbortSignal, ...args: A) => Promise<R>): Abortable<A, R> {
+    const call = (...args: [...A, AbortSignal?]): Promise<R> => {
+        const [rest, signal] = splitSignal<A>(args);
+        return fn(signal ?? new AbortController().signal, ...rest);
+    };
+    return Object.assign(call, { [ABORTABLE]: fn });
+}
+
+/**
+ * Wraps the function with a decorator's call, which receives the caller's signal when the function is abortable.
+ */
+function decorate<A extends any[], R>(
+    fn: (...args: A) => Promise<R>,
+    call: (signal: AbortSignal | undefined, ...args: A) => Promise<R>
+): ((...args: A) => Promise<R>) | Abortable<A, R> {
+    return isAbortable(fn) ? abortable<A, R>(call) : (...args: A) => call(undefined, ...args);
+}
+
+/**
+ * Decorate an async function to add a timeout.
+ *
+ * An abortable function receives an `AbortSignal`, which aborts when the timeout elapses
+ * or when the decorator's or caller's signal aborts. Other functions are called with
+ * their arguments as is, and are left running when the timeout elapses.
+ *
  * @example
  * let fetchUserWithTimeout = withTimeout(fetchUser, 5000);
+ * let fetchUserWithTimeout = withTimeout(abortable(fetchUser), { ms: 5000, signal });
  */
-export function withTimeout<A extends any[], R>(asyncFn: (...args: A) => Promise<R>, timeoutInMs: number) {
-    return (...args: A): Promise<R> => {
+export function withTimeout<A extends any[], R>(asyncFn: Abortable<A, R>, timeoutInMs: Duration): Abortable<A, R>;
+export function withTimeout<A extends any[], R>(
+    asyncFn: (...args: A) => Promise<R>,
+    timeoutInMs: Duration
+): (...args: A) => Promise<R>;
+export function withTimeout<A extends any[], R>(asyncFn: (...args: A) => Promise<R>, timeoutInMs: Duration) {
+    const { ms, signal } = timerOptions(timeoutInMs);
+    return decorate(asyncFn, (callerSignal, ...args: A): Promise<R> => {
+        const controller = new AbortController();
+        const unlink = linkSignals(controller, signal, callerSignal);
         return new Promise<R>((pass, fail) => {
-            const timerId = setTimeout(() => fail(new TimeoutError()), timeoutInMs);
-            const onPass = (value: R) => {
+            const onAbort = () => {
+                cleanup();
+                fail(controller.signal.reason);
+            };
+            const cleanup = () => {
                 clearTimeout(timerId);
+                unlink();
+                controller.signal.removeEventListener("abort", onAbort);
+            };
+            const timerId = setTimeout(() => controller.abort(new TimeoutError()), ms);
+            if (controller.signal.aborted) {
+                onAbort();
+                return;
+            }
+            controller.signal.addEventListener("abort", onAbort, { once: true });
+            const onPass = (value: R) => {
+                cleanup();
                 pass(value);
             };
             const onFail = (error: any) => {
-                clearTimeout(timerId);
+                cleanup();
                 fail(error);
             };
-            asyncFn(...args).then(onPass, onFail);
+            invoke(asyncFn, controller.signal, args).then(onPass, onFail);
         });
-    };
+    });
+}
+
+export interface HedgingOptions {
+    /** How long in ms to wait for an attempt to answer before starting another */
+    delayMs: number;
+    /** Maximum number of attempts, including the first, defaults to 2 */
+    maxAttempts?: number;
+    /** Called with the index of the attempt that answered first, starting from 0, and how long it took */
+    onWin?: (attempt: number, elapsedMs: number) => void;
+    /** Cancels all attempts */
+    signal?: AbortSignal;
+}
+
+/**
+ * Decorate an async function to hedge slow calls with extra identical attempts.
+ *
+ * If an attempt has not answered within `delayMs`, another is started, up to `maxAttempts`.
+ * The first attempt to succeed wins, and the others are aborted through their signal.
+ * An attempt that fails starts the next one straight away. Once every attempt has failed,
+ * the returned promise rejects with the error of the last one.
+ *
+ * An abortable function receives its own `AbortSignal` for each attempt, which also aborts when
+ * the decorator's or caller's signal aborts. Other functions are called with their arguments as is,
+ * and the losing attempts are left running.
+ *
+ * @example
+ * let fetchUserHedged = withHedging(abortable(fetchUser), {
+ *     delayMs: 50,
+ *     onWin: (attempt, elapsedMs) => metrics.record("fetchUser", attempt, elapsedMs),
+ * });
+ */
+export function withHedging<A extends any[], R>(fn: Abortable<A, R>, options: HedgingOptions): Abortable<A, R>;
+export function withHedging<A extends any[], R>(
+    fn: (...args: A) => Promise<R>,
+    options: HedgingOptions
+): (...args: A) => Promise<R>;
+export function withHedging<A extends any[], R>(fn: (...args: A) => Promise<R>, options: HedgingOptions) {
+    const { delayMs, maxAttempts = 2, onWin, signal } = options;
+    if (maxAttempts < 1 || !Number.isInteger(maxAttempts)) {
+        throw new Error("Hedging maxAttempts must be a positive integer");
+    }
+    return decorate(fn, (callerSignal, ...args: A): Promise<R> => {
+        const controller = new AbortController();
+        const unlink = linkSignals(controller, signal, callerSignal);
+        const attempts: AbortController[] = [];
+        const start = Date.now();
+        return new Promise<R>((pass, fail) => {
+            let timerId: ReturnType<typeof setTimeout> | undefined;
+            let pending = 0;
+            let settled = false;
+            const cleanup = () => {
+                settled = true;
+                clearTimeout(timerId);
+                unlink();
+                controller.signal.removeEventListener("abort", onAbort);
+            };
+            const onAbort = () => {
+                cleanup();
+                attempts.forEach(attempt => attempt.abort(controller.signal.reason));
+                fail(controller.signal.reason);
+            };
+            const launch = () => {
+                clearTimeout(timerId);
+                const index = attempts.length;
+                const attempt = new AbortController();
+                attempts.push(attempt);
+                pending++;
+                if (attempts.length < maxAttempts) {
+                    timerId = setTimeout(launch, delayMs);
+                }
+                invoke(fn, attempt.signal, args).then(
+                    value => {
+                        if (settled) return;
+                        cleanup();
+                        attempts.forEach((other, i) => i !== index && other.abort());
+                        pass(value);
+                        try {
+                            onWin?.(index, Date.now() - start);
+                        } catch {
+                            // a broken hook must not lose the result
+                        }
+                    },
+                    error => {
+                        pending--;
+                        if (settled) return;
+                        if (attempts.length < maxAttempts) {
+                            launch();
+                        } else if (pending === 0) {
+                            cleanup();
+                            fail(error);
+                        }
+                    }
+                );
+            };
+            if (controller.signal.aborted) {
+                onAbort();
+                return;
+            }
+            controller.signal.addEventListener("abort", onAbort, { once: true });
+            launch();
+        });
+    });
 }
 
 /**
  * Decorate an async function to add retries if calling the function fails
  *
+ * Once the decorator's signal, or the caller's signal of an abortable function, aborts,
+ * no further attempts are made, and the returned promise rejects with the signal's reason.
+ * An abortable function receives that combined signal, while other functions are called
+ * with their arguments as is.
+ *
  * @example
  * let fetchUserWithRetry = withRetry(fetchUser, 5, i => i * 2);
+ *
+ * @example
+ * let fetchUserWithRetry = withRetry(fetchUser, {
+ *     tries: 5,
+ *     wait: fullJitter(expBackoff(100)),
+ *     maxDelay: 5000,
+ *     shouldRetry: error => error.status >= 500,
+ * });
  */
-export function withRetry<A extends any[], R>(fn: (...args: A) => Promise<R>, tries: number, wait?: Wait) {
-    wait = wait ?? expBackoff(MINIMUM_RETRY_WAIT_TIME);
-
-    return async (...args: A): Promise<R> => {
-        let lastError: any;
-        for (let i = 0; i < tries; i++) {
-            try {
-                return await fn(...args);
-            } catch (ex) {
-                lastError = ex;
-                await sleep(wait(i));
+export function withRetry<A extends any[], R>(fn: Abortable<A, R>, policy: RetryPolicy): Abortable<A, R>;
+export function withRetry<A extends any[], R>(
+    fn: Abortable<A, R>,
+    tries: number,
+    wait?: Wait,
+    signal?: AbortSignal
+): Abortable<A, R>;
+export function withRetry<A extends any[], R>(
+    fn: (...args: A) => Promise<R>,
+    policy: RetryPolicy
+): (...args: A) => Promise<R>;
+export function withRetry<A extends any[], R>(
+    fn: (...args: A) => Promise<R>,
+    tries: number,
+    wait?: Wait,
+    signal?: AbortSignal
+): (...args: A) => Promise<R>;
+export function withRetry<A extends any[], R>(
+    fn: (...args: A) => Promise<R>,
+    tries: number | RetryPolicy,
+    wait?: Wait,
+    signal?: AbortSignal
+) {
+    const policy = typeof tries === "number" ? { tries, wait, signal } : tries;
+    const {
+        tries: maxTries = DEFAULT_RETRIES,
+        wait: nextWait = expBackoff(MINIMUM_RETRY_WAIT_TIME),
+        maxDelay = Infinity,
+        budgetMs = Infinity,
+        shouldRetry = () => true,
+        onRetry,
+        onEvent,
+        retryAfter = retryAfterOf,
+    } = policy;
+
+    return decorate(fn, async (callerSignal, ...args: A): Promise<R> => {
+        const controller = new AbortController();
+        const unlink = linkSignals(controller, policy.signal, callerSignal);
+        const start = Date.now();
+        const errors: any[] = [];
+        let previous = 0;
+        try {
+            for (let i = 0; i < maxTries; i++) {
+                controller.signal.throwIfAborted();
+                try {
+                    return await invoke(fn, controller.signal, args);
+                } catch (ex) {
+                    controller.signal.throwIfAborted();
+                    errors.push(ex);
+                    if (!shouldRetry(ex, i)) {
+                        throw ex;
+                    }
+                    if (i + 1 >= maxTries) {
+                        break;
+                    }
+                    const delay = retryAfter(ex) ?? Math.min(nextWait(i, previous), maxDelay);
+                    if (Date.now() - start + delay > budgetMs) {
+                        break;
+                    }
+                    previous = delay;
+                    // a broken hook must not stop a call that may still recover
+                    try {
+                        onRetry?.(ex, i, delay);
+                    } catch {
+                        // ignored
+                    }
+                    const timestamp = Date.now();
+                    try {
+                        onEvent?.({
+                            type: "retry",
+                            timestamp,
+                            attempt: i,
+                            delayMs: delay,
+                            elapsedMs: timestamp - start,
+                            error: ex,
+                        });
+                    } catch {
+                        // ignored
+                    }
+                    await sleep({ ms: delay, signal: controller.signal });
+                }
             }
+            throw new RetryError(`Failed after ${errors.length} attempts`, errors[errors.length - 1], errors);
+        } finally {
+            unlink();
         }
-        throw new RetryError(`Failed after ${tries} attempts`, lastError);
-    };
+    });
+}
+
+export interface RetryPolicy {
+    /** Maximum number of attempts, defaults to `DEFAULT_RETRIES` */
+    tries?: number;
+    /** How long to wait before the next attempt, defaults to `expBackoff()` */
+    wait?: Wait;
+    /** Upper bound on each wait computed by `wait` */
+    maxDelay?: number;
+    /** Total time in ms for all attempts and waits, after which no further attempts are made */
+    budgetMs?: number;
+    /**
+     * Whether to retry after the error, given the attempt `i`, which starts from 0.
+     * When false, the error is thrown as is, without further attempts.
+     */
+    shouldRetry?: (error: any, i: number) => boolean;
+    /** Called before waiting for the next attempt */
+    onRetry?: (error: any, i: number, delay: number) => void;
+    /** Called with a retry event before waiting for the next attempt, for exporting to a metrics system */
+    onEvent?: (event: RetryEvent) => void;
+    /**
+     * Reads a delay in ms requested by the server from the error, which is used instead of `wait`
+     * and is not limited by `maxDelay`. Defaults to reading a numeric `retryAfter` property.
+     */
+    retryAfter?: (error: any) => number | undefined;
+    /** Stops retrying when aborted */
+    signal?: AbortSignal;
+}
+
+function retryAfterOf(error: any): number | undefined {
+    return typeof error?.retryAfter === "number" ? error.retryAfter : undefined;
 }
 
 /**
  * The wait function.
- * Given the attempt `i`, return the duration in ms to wait.
+ * Given the attempt `i`, and the `previous` wait in ms, return the duration in ms to wait.
  */
-export type Wait = (i: number) => number;
+export type Wait = (i: number, previous?: number) => number;
 
 export const DEFAULT_RETRIES = 3;
 export const MINIMUM_RETRY_WAIT_TIME = 250;
@@ -145,6 +613,30 @@ export function expBackoff(minRetryWaitTime: number = MINIMUM_RETRY_WAIT_TIME):
     };
 }
 
+/**
+ * Randomizes each wait between 0 and the given wait, so that clients do not retry in lock-step.
+ *
+ * @example
+ * withRetry(fetchUser, { wait: fullJitter(expBackoff(100)) });
+ */
+export function fullJitter(wait: Wait = expBackoff()): Wait {
+    return (i, previous) => Math.floor(Math.random() * wait(i, previous));
+}
+
+/**
+ * Randomizes each wait between the minimum and 3 times the previous wait,
+ * which grows like exponential backoff while spreading out retries.
+ *
+ * @example
+ * withRetry(fetchUser, { wait: decorrelatedJitter(100), maxDelay: 10000 });
+ */
+export function decorrelatedJitter(minRetryWaitTime: number = MINIMUM_RETRY_WAIT_TIME): Wait {
+    return (_, previous = 0) => {
+        const upper = Math.max(minRetryWaitTime, previous * 3);
+        return Math.floor(minRetryWaitTime + Math.random() * (upper - minRetryWaitTime));
+    };
+}
+
 /**
  * A promise that resolves to a value.
  * This is useful for creating a promise that can be resolved later.
@@ -0,0 +1,50 @@
+import { enqueue, waitFor, WaitOptions } from "~/waiter";
+
+/**
+ * A barrier makes a fixed number of parties wait for each other, then lets them all through together.
+ * It is cyclic, so once the parties are through, it can be used again for the next phase.
+ *
+ * @example
+ * const barrier = new Barrier(workers.length);
+ * await Promise.all(workers.map(async worker => {
+ *     await worker.load();
+ *     await barrier.wait(); // no one starts until everyone has loaded
+ *     await worker.start();
+ * }));
+ */
+export class Barrier {
+    public readonly parties: number;
+    private waiters: Array<(index: number) => void> = [];
+
+    public constructor(parties: number) {
+        if (parties <= 0 || !Number.isInteger(parties)) {
+            throw new Error("Barrier parties must be a positive integer");
+        }
+        this.parties = parties;
+    }
+
+    /**
+     * The number of parties waiting for the rest to arrive.
+     */
+    public get waiting(): number {
+        return this.waiters.length;
+    }
+
+    /**
+     * Waits until all parties have arrived.
+     * A party that is aborted or times out leaves, and is no longer counted as arrived.
+     * @param options Optional signal and timeout to stop waiting
+     * @returns The order in which this party arrived, starting from 0
+     */
+    public async wait(options: WaitOptions = {}): Promise<number> {
+        options.signal?.throwIfAborted();
+        const index = this.waiters.length;
+        if (index + 1 === this.parties) {
+            // the last party trips the barrier, and resets it for the next phase
+            this.waiters.splice(0).forEach((waiter, i) => waiter(i));
+            return index;
+        }
+
+        return waitFor<number>(options, grant => enqueue(this.waiters, (i: number) => grant(i)));
+    }
+}
@@ -0,0 +1,250 @@
+import { Reject } from "~/async";
+import { ChannelClosedError } from "~/error";
+import { enqueue, waitFor, WaitOptions } from "~/waiter";
+
+/**
+ * Adds a receiver to a channel's queue. Kept off the public API, but shared with `select()`.
+ */
+const ENQUEUE = Symbol("enqueue");
+
+interface Receiver<T> {
+    grant: (value: T) => void;
+    /** Called instead of `grant` when the channel closes with nothing left to receive */
+    close: () => void;
+}
+
+interface Sender<T> {
+    value: T;
+    grant: () => void;
+    fail: Reject;
+}
+
+/**
+ * The case that was ready in a `select()`, with the key of its channel.
+ */
+export type Selected<C extends Record<string, Channel<any>>> = {
+    [K in keyof C]: { key: K; value: C[K] extends Channel<infer T> ? T : never };
+}[keyof C];
+
+/**
+ * A channel passes values from producers to consumers, in order.
+ *
+ * Sending waits while the buffer is full, and receiving waits while it is empty.
+ * With a capacity of 0, every send waits until a receiver takes the value.
+ *
+ * @example
+ * const jobs = new Channel<Job>(10);
+ *
+ * // producer
+ * for (const job of pending) {
+ *     await jobs.send(job); // waits while 10 jobs are buffered
+ * }
+ * jobs.close();
+ *
+ * // consumer
+ * for await (const job of jobs) {
+ *     await run(job);
+ * }
+ */
+export class Channel<T> implements AsyncIterable<T> {
+    public readonly capacity: number;
+    private buffer: T[] = [];
+    private senders: Sender<T>[] = [];
+    private receivers: Receiver<T>[] = [];
+    private closed: boolean = false;
+
+    /**
+     * @param capacity The number of values that can be buffered without a receiver, defaults to 0
+     */
+    public constructor(capacity: number = 0) {
+        if (capacity < 0 || !Number.isInteger(capacity)) {
+            throw new Error("Channel capacity must be a non-negative integer");
+        }
+        this.capacity = capacity;
+    }
+
+    /**
+     * The number of values in the buffer.
+     */
+    public get size(): number {
+        return this.buffer.length;
+    }
+
+    /**
+     * Whether the channel has stopped accepting values.
+     * Values that were already buffered can still be received.
+     */
+    public get isClosed(): boolean {
+        return this.closed;
+    }
+
+    /**
+     * Attempts to send without waiting.
+     * @returns Whether a receiver or the buffer took the value
+     * @throws ChannelClosedError if the channel is closed
+     */
+    public trySend(value: T): boolean {
+        if (this.closed) {
+            throw new ChannelClosedError();
+        }
+        const receiver = this.receivers.shift();
+        if (receiver) {
+            receiver.grant(value);
+            return true;
+        }
+        if (this.buffer.length < this.capacity) {
+            this.buffer.push(value);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Sends a value, waiting while the buffer is full.
+     * Rejects with a ChannelClosedError if the channel is closed before the value is taken.
+     * @param options Optional signal and timeout to stop waiting
+     */
+    public async send(value: T, options: WaitOptions = {}): Promise<void> {
+        options.signal?.throwIfAborted();
+        if (this.trySend(value)) {
+            return;
+        }
+
+        return waitFor<void>(options, (grant, fail) => {
+            const sender: Sender<T> = { value, grant: () => grant(), fail };
+            return enqueue(this.senders, sender);
+        });
+    }
+
+    /**
+     * Attempts to receive without waiting.
+     * @returns The value wrapped in an object, or null if none is ready
+     */
+    public tryReceive(): { value: T } | null {
+        if (this.buffer.length > 0) {
+            const value = this.buffer.shift() as T;
+            // a waiting sender takes the freed space in the buffer
+            const sender = this.senders.shift();
+            if (sender) {
+                this.buffer.push(sender.value);
+                sender.grant();
+            }
+            return { value };
+        }
+        const sender = this.senders.shift();
+        if (sender) {
+            sender.grant();
+            return { value: sender.value };
+        }
+        return null;
+    }
+
+    /**
+     * Receives a value, waiting while the buffer is empty.
+     * Rejects with a ChannelClosedError once the channel is closed and nothing is left to receive.
+     * @param options Optional signal and timeout to stop waiting
+     */
+    public async receive(options: WaitOptions = {}): Promise<T> {
+        options.signal?.throwIfAborted();
+        const received = this.tryReceive();
+        if (received) {
+            return received.value;
+        }
+        if (this.closed) {
+            throw new ChannelClosedError();
+        }
+
+        return waitFor<T>(options, (grant, fail) =>
+            this[ENQUEUE]({ grant, close: () => fail(new ChannelClosedError()) })
+        );
+    }
+
+    /**
+     * Stops accepting values. Buffered values can still be received, after which iteration ends.
+     * Senders that are still waiting are rejected with a ChannelClosedError.
+     */
+    public close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.senders.splice(0).forEach(sender => sender.fail(new ChannelClosedError()));
+        // receivers only wait while the buffer is empty, so nothing is left for them
+        this.receivers.splice(0).forEach(receiver => receiver.close());
+    }
+
+    public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        while (true) {
+            let value: T;
+            try {
+                value = await this.receive();
+            } catch (error) {
+                if (error instanceof ChannelClosedError) return;
+                throw error;
+            }
+            yield value;
+        }
+    }
+
+    /**
+     * @returns A function that takes the receiver back out of the queue, returning whether it was still there
+     */
+    public [ENQUEUE](receiver: Receiver<T>): () => boolean {
+        return enqueue(this.receivers, receiver);
+    }
+}
+
+/**
+ * Receives from whichever channel has a value first, resolving to the value and the key of its channel.
+ *
+ * Exactly one value is received, even if several channels are ready. Closed channels are skipped,
+ * and once every channel is closed with nothing left to receive, it rejects with a ChannelClosedError.
+ *
+ * @example
+ * const result = await select({ jobs, cancellations }, { timeoutMs: 1000 });
+ * if (result.key === "jobs") {
+ *     await run(result.value);
+ * }
+ */
+export async function select<C extends Record<string, Channel<any>>>(
+    cases: C,
+    options: WaitOptions = {}
+): Promise<Selected<C>> {
+    options.signal?.throwIfAborted();
+    const keys = Object.keys(cases) as Array<keyof C & string>;
+    for (const key of keys) {
+        const received = cases[key].tryReceive();
+        if (received) {
+            return { key, value: received.value } as Selected<C>;
+        }
+    }
+
+    const open = keys.filter(key => !cases[key].isClosed);
+    if (open.length === 0) {
+        throw new ChannelClosedError();
+    }
+
+    return waitFor<Selected<C>>(options, (grant, fail) => {
+        const waiting = new Map<string, () => boolean>();
+        const leave = () => {
+            const left = waiting.size > 0;
+            waiting.forEach(leaveChannel => leaveChannel());
+            waiting.clear();
+            return left;
+        };
+        for (const key of open) {
+            const leaveChannel = cases[key][ENQUEUE]({
+                grant: value => {
+                    leave();
+                    grant({ key, value } as Selected<C>);
+                },
+                close: () => {
+                    waiting.delete(key);
+                    if (waiting.size === 0) fail(new ChannelClosedError());
+                },
+            });
+            waiting.set(key, leaveChannel);
+        }
+        return leave;
+    });
+}
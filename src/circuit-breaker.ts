@@ -0,0 +1,219 @@
+import { CircuitOpenError } from "~/error";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+    /** Opens after this many consecutive failures, defaults to 5 */
+    failureThreshold?: number;
+    /** Opens when the ratio of failures within the window reaches this value, between 0 and 1 */
+    failureRateThreshold?: number;
+    /** Minimum number of calls within the window before the failure rate is considered, defaults to 10 */
+    minimumCalls?: number;
+    /** Length of the rolling window in ms used for the failure rate, defaults to 60000 */
+    windowMs?: number;
+    /** How long to stay open before letting trial calls through, defaults to 30000 */
+    resetTimeoutMs?: number;
+    /** Number of trial calls let through while half-open, all of which must succeed to close, defaults to 1 */
+    halfOpenMaxCalls?: number;
+    /** Whether an error counts as a failure, defaults to all errors. Other errors are not recorded at all */
+    isFailure?: (error: any) => boolean;
+    /** Called whenever the state changes */
+    onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export interface CircuitStats {
+    state: CircuitState;
+    /** Successful calls within the window */
+    successes: number;
+    /** Failed calls within the window */
+    failures: number;
+    /** Ratio of failed calls within the window, or 0 if there were none */
+    failureRate: number;
+    /** Failed calls since the last success */
+    consecutiveFailures: number;
+    /** Calls rejected without being made, since the breaker was created */
+    rejected: number;
+}
+
+/**
+ * A circuit breaker stops calling a dependency that is failing, giving it time to recover.
+ *
+ * While closed, calls go through, and failures are counted. Once too many calls fail, it opens,
+ * and calls are rejected straight away with a CircuitOpenError. After `resetTimeoutMs`,
+ * it becomes half-open and lets a few trial calls through. If they all succeed it closes again,
+ * otherwise it opens again.
+ *
+ * @example
+ * const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10000 });
+ * const user = await breaker.use(() => fetchUser(id));
+ */
+export class CircuitBreaker {
+    private readonly failureThreshold: number;
+    private readonly failureRateThreshold?: number;
+    private readonly minimumCalls: number;
+    private readonly windowMs: number;
+    private readonly resetTimeoutMs: number;
+    private readonly halfOpenMaxCalls: number;
+    private readonly isFailure: (error: any) => boolean;
+    private readonly onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+
+    private current: CircuitState = "closed";
+    private openedAt: number = 0;
+    private outcomes: Array<{ time: number; failed: boolean }> = [];
+    private consecutiveFailures: number = 0;
+    private rejected: number = 0;
+    private trials: number = 0;
+    private trialSuccesses: number = 0;
+
+    public constructor(options: CircuitBreakerOptions = {}) {
+        this.failureThreshold = options.failureThreshold ?? 5;
+        this.failureRateThreshold = options.failureRateThreshold;
+        this.minimumCalls = options.minimumCalls ?? 10;
+        this.windowMs = options.windowMs ?? 60000;
+        this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+        this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+        this.isFailure = options.isFailure ?? (() => true);
+        this.onStateChange = options.onStateChange;
+    }
+
+    public get state(): CircuitState {
+        if (this.current === "open" && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+            this.transition("half-open");
+        }
+        return this.current;
+    }
+
+    public get stats(): CircuitStats {
+        this.prune(Date.now());
+        const failures = this.outcomes.filter(outcome => outcome.failed).length;
+        const total = this.outcomes.length;
+        return {
+            state: this.state,
+            successes: total - failures,
+            failures,
+            failureRate: total === 0 ? 0 : failures / total,
+            consecutiveFailures: this.consecutiveFailures,
+            rejected: this.rejected,
+        };
+    }
+
+    /**
+     * Calls the function if the circuit allows it, recording whether it failed.
+     * @throws CircuitOpenError if the circuit is open, or half-open with all trial calls in flight
+     */
+    public async use<T>(fn: () => Promise<T> | T): Promise<T> {
+        const state = this.state;
+        if (state === "open" || (state === "half-open" && this.trials >= this.halfOpenMaxCalls)) {
+            this.rejected++;
+            throw new CircuitOpenError();
+        }
+
+        const trial = state === "half-open";
+        if (trial) {
+            this.trials++;
+        }
+
+        try {
+            const result = await fn();
+            this.record(false, trial);
+            return result;
+        } catch (error) {
+            if (this.isFailure(error)) {
+                this.record(true, trial);
+            } else {
+                this.ignore(trial);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Closes the circuit, and forgets all recorded calls.
+     */
+    public reset(): void {
+        this.outcomes = [];
+        this.consecutiveFailures = 0;
+        this.transition("closed");
+    }
+
+    private record(failed: boolean, trial: boolean): void {
+        const now = Date.now();
+        this.outcomes.push({ time: now, failed });
+        this.prune(now);
+        this.consecutiveFailures = failed ? this.consecutiveFailures + 1 : 0;
+
+        if (trial && this.current === "half-open") {
+            if (failed) {
+                this.transition("open");
+            } else if (++this.trialSuccesses >= this.halfOpenMaxCalls) {
+                this.transition("closed");
+            }
+        } else if (failed && this.current === "closed" && this.shouldOpen()) {
+            this.transition("open");
+        }
+    }
+
+    /**
+     * Leaves the counts unchanged for an error that is not a failure,
+     * freeing its trial slot so that another trial call can decide the state.
+     */
+    private ignore(trial: boolean): void {
+        if (trial && this.current === "half-open") {
+            this.trials--;
+        }
+    }
+
+    private shouldOpen(): boolean {
+        if (this.consecutiveFailures >= this.failureThreshold) {
+            return true;
+        }
+        if (this.failureRateThreshold === undefined || this.outcomes.length < this.minimumCalls) {
+            return false;
+        }
+        const failures = this.outcomes.filter(outcome => outcome.failed).length;
+        return failures / this.outcomes.length >= this.failureRateThreshold;
+    }
+
+    private prune(now: number): void {
+        while (this.outcomes.length > 0 && this.outcomes[0].time + this.windowMs <= now) {
+            this.outcomes.shift();
+        }
+    }
+
+    private transition(state: CircuitState): void {
+        const previous = this.current;
+        if (previous === state) {
+            return;
+        }
+        this.current = state;
+        this.trials = 0;
+        this.trialSuccesses = 0;
+        if (state === "open") {
+            this.openedAt = Date.now();
+        }
+        if (state === "closed") {
+            this.outcomes = [];
+            this.consecutiveFailures = 0;
+        }
+        try {
+            this.onStateChange?.(state, previous);
+        } catch {
+            // a broken hook must not change the outcome of the call that caused the transition
+        }
+    }
+}
+
+/**
+ * Decorate an async function with a circuit breaker.
+ * Pass an existing CircuitBreaker to share it between several functions that call the same dependency.
+ *
+ * @example
+ * let fetchUserWithBreaker = withCircuitBreaker(fetchUser, { failureThreshold: 3 });
+ */
+export function withCircuitBreaker<A extends any[], R>(
+    fn: (...args: A) => Promise<R>,
+    options: CircuitBreakerOptions | CircuitBreaker = {}
+) {
+    const breaker = options instanceof CircuitBreaker ? options : new CircuitBreaker(options);
+    return (...args: A): Promise<R> => breaker.use(() => fn(...args));
+}
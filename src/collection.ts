@@ -0,0 +1,189 @@
+import { AggregateTaskError, TaskFailure } from "~/error";
+
+/**
+ * Any iterable or async iterable, which is read lazily, one item at a time.
+ */
+export type Source<T> = Iterable<T> | AsyncIterable<T>;
+
+export interface CollectionOptions {
+    /** Maximum number of items processed at once, defaults to Infinity */
+    concurrency?: number;
+    /**
+     * Whether to reject with the first error, defaults to true.
+     * When false, every item is processed, and the failures are thrown together as an `AggregateTaskError`.
+     */
+    stopOnError?: boolean;
+    /** Stops reading the source when aborted, rejecting with the signal's reason */
+    signal?: AbortSignal;
+}
+
+/**
+ * Maps each item with a concurrency limit, resolving to the results in the order of the source.
+ *
+ * @example
+ * const users = await pMap(ids, id => fetchUser(id), { concurrency: 5 });
+ */
+export async function pMap<T, R>(
+    source: Source<T>,
+    mapper: (item: T, index: number) => R | Promise<R>,
+    options: CollectionOptions = {}
+): Promise<R[]> {
+    const results: R[] = [];
+    await each(source, mapper, options, (value, index) => (results[index] = value));
+    return results;
+}
+
+/**
+ * Keeps the items that pass the predicate, with a concurrency limit, in the order of the source.
+ *
+ * @example
+ * const online = await pFilter(hosts, host => ping(host), { concurrency: 10 });
+ */
+export async function pFilter<T>(
+    source: Source<T>,
+    predicate: (item: T, index: number) => boolean | Promise<boolean>,
+    options: CollectionOptions = {}
+): Promise<T[]> {
+    const kept: Array<{ item: T; keep: boolean }> = [];
+    await each(
+        source,
+        async (item, index) => ({ item, keep: await predicate(item, index) }),
+        options,
+        (value, index) => (kept[index] = value)
+    );
+    return kept.filter(value => value.keep).map(value => value.item);
+}
+
+/**
+ * Calls the function for each item with a concurrency limit, without collecting the results.
+ *
+ * @example
+ * await pEach(readLines(file), line => upload(line), { concurrency: 4 });
+ */
+export async function pEach<T>(
+    source: Source<T>,
+    fn: (item: T, index: number) => unknown,
+    options: CollectionOptions = {}
+): Promise<void> {
+    await each(source, fn, options, () => {});
+}
+
+/**
+ * Reduces the items to a single value, calling the reducer one item at a time, in order.
+ *
+ * @example
+ * const total = await pReduce(orderIds, async (sum, id) => sum + (await fetchOrder(id)).total, 0);
+ */
+export async function pReduce<T, R>(
+    source: Source<T>,
+    reducer: (accumulator: R, item: T, index: number) => R | Promise<R>,
+    initial: R,
+    options: Pick<CollectionOptions, "signal"> = {}
+): Promise<R> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+    let accumulator = initial;
+    let index = 0;
+    for await (const item of source) {
+        signal?.throwIfAborted();
+        accumulator = await reducer(accumulator, item, index++);
+    }
+    return accumulator;
+}
+
+/**
+ * Pulls items from the source only when a slot is free, so the source is never read ahead.
+ */
+function each<T, R>(
+    source: Source<T>,
+    fn: (item: T, index: number) => R | Promise<R>,
+    options: CollectionOptions,
+    onResult: (value: R, index: number) => void
+): Promise<void> {
+    const { concurrency = Infinity, stopOnError = true, signal } = options;
+    if (!(concurrency >= 1) || (concurrency !== Infinity && !Number.isInteger(concurrency))) {
+        throw new Error("Concurrency must be a positive integer");
+    }
+    if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+    }
+
+    const iterator: Iterator<T> | AsyncIterator<T> =
+        typeof (source as AsyncIterable<T>)[Symbol.asyncIterator] === "function"
+            ? (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+            : (source as Iterable<T>)[Symbol.iterator]();
+    const failures: TaskFailure[] = [];
+
+    return new Promise<void>((resolve, reject) => {
+        let count = 0;
+        let running = 0;
+        let pulling = false;
+        let exhausted = false;
+        let settled = false;
+
+        const cleanup = () => {
+            settled = true;
+            signal?.removeEventListener("abort", onAbort);
+        };
+        const stop = (reason: any) => {
+            if (settled) return;
+            cleanup();
+            if (!exhausted) {
+                // let the source release its resources, since it will not be read to the end
+                Promise.resolve(iterator.return?.()).catch(() => {});
+            }
+            reject(reason);
+        };
+        const onAbort = () => stop(signal?.reason);
+        const finish = () => {
+            if (settled || running > 0 || !exhausted) return;
+            cleanup();
+            if (failures.length > 0) {
+                failures.sort((a, b) => a.index - b.index);
+                reject(new AggregateTaskError(`Failed for ${failures.length} of ${count} items`, failures));
+            } else {
+                resolve();
+            }
+        };
+        const fill = async () => {
+            if (pulling) return;
+            pulling = true;
+            try {
+                while (!settled && !exhausted && running < concurrency) {
+                    const next = await iterator.next();
+                    if (settled) break;
+                    if (next.done) {
+                        exhausted = true;
+                        break;
+                    }
+                    const index = count++;
+                    running++;
+                    new Promise<R>(pass => pass(fn(next.value, index)))
+                        .then(
+                            value => onResult(value, index),
+                            reason => {
+                                if (stopOnError) {
+                                    stop(reason);
+                                } else {
+                                    failures.push({ index, reason });
+                                }
+                            }
+                        )
+                        .finally(() => {
+                            running--;
+                            fill();
+                        });
+                }
+            } catch (error) {
+                exhausted = true;
+                stop(error);
+            } finally {
+                pulling = false;
+            }
+            finish();
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        fill();
+    });
+}
@@ -0,0 +1,102 @@
+import { Mutex } from "~/mutex";
+import { Release } from "~/semaphore";
+import { enqueue, waitFor, WaitOptions } from "~/waiter";
+
+/**
+ * Waits to be notified from within `Condition.use`, giving up the mutex while waiting.
+ * It holds the mutex again when it returns, even when it rejects because it was aborted or timed out.
+ */
+export type ConditionWait = (options?: WaitOptions) => Promise<void>;
+
+/**
+ * A condition variable lets holders of a Mutex wait for some state to change,
+ * giving up the mutex while they wait, and holding it again once they are notified.
+ *
+ * Waiters should check the state in a loop, as it may have changed again by the time they hold the mutex.
+ *
+ * @example
+ * const mutex = new Mutex();
+ * const notEmpty = new Condition(mutex);
+ *
+ * // consumer
+ * const item = await notEmpty.use(async wait => {
+ *     while (items.length === 0) await wait();
+ *     return items.shift();
+ * });
+ *
+ * // producer
+ * await mutex.use(() => {
+ *     items.push(item);
+ *     notEmpty.notify();
+ * });
+ */
+export class Condition {
+    private waiters: Array<() => void> = [];
+
+    public constructor(public readonly mutex: Mutex) {}
+
+    /**
+     * The number of waiters waiting to be notified.
+     */
+    public get waiting(): number {
+        return this.waiters.length;
+    }
+
+    /**
+     * Releases the mutex, waits to be notified, then acquires the mutex again.
+     * If waiting is aborted or times out, it rejects without holding the mutex,
+     * as there is no release to return. `use` holds the mutex again in that case.
+     * @param release The release of the currently held mutex
+     * @param options Optional signal and timeout to stop waiting
+     * @returns The release of the re-acquired mutex
+     */
+    public async wait(release: Release, options: WaitOptions = {}): Promise<Release> {
+        const notified = waitFor<void>(options, grant => enqueue(this.waiters, () => grant()));
+        release();
+        await notified;
+        return this.mutex.acquire({ signal: options.signal });
+    }
+
+    /**
+     * Acquires the mutex, and runs the function with a `wait` that can be called any number of times.
+     * The function holds the mutex whenever it runs, even after a `wait` that was aborted or timed out.
+     * The mutex is released once the function finishes.
+     * @param options Optional signal and timeout to stop acquiring the mutex
+     */
+    public async use<T>(fn: (wait: ConditionWait) => Promise<T> | T, options?: WaitOptions): Promise<T> {
+        let release: Release | null = await this.mutex.acquire(options);
+        const wait = async (options?: WaitOptions) => {
+            if (!release) {
+                throw new Error("Condition wait requires the mutex to be held");
+            }
+            const held = release;
+            release = null;
+            try {
+                release = await this.wait(held, options);
+            } catch (error) {
+                // the caller may catch the error and carry on, so it must hold the mutex again
+                release = await this.mutex.acquire();
+                throw error;
+            }
+        };
+        try {
+            return await fn(wait);
+        } finally {
+            release?.();
+        }
+    }
+
+    /**
+     * Wakes the longest waiting waiter, if any.
+     */
+    public notify(): void {
+        this.waiters.shift()?.();
+    }
+
+    /**
+     * Wakes all waiters.
+     */
+    public notifyAll(): void {
+        this.waiters.splice(0).forEach(waiter => waiter());
+    }
+}
@@ -0,0 +1,60 @@
+import { enqueue, waitFor, WaitOptions } from "~/waiter";
+
+/**
+ * A latch that opens once it has been counted down to zero, and stays open.
+ *
+ * @example
+ * const loaded = new CountdownLatch(3);
+ * for (const file of files) {
+ *     load(file).then(() => loaded.countDown());
+ * }
+ * await loaded.wait(); // resolves once all 3 files are loaded
+ */
+export class CountdownLatch {
+    private remaining: number;
+    private waiters: Array<() => void> = [];
+
+    public constructor(count: number) {
+        if (count < 0 || !Number.isInteger(count)) {
+            throw new Error("CountdownLatch count must be a non-negative integer");
+        }
+        this.remaining = count;
+    }
+
+    /**
+     * The number of count downs left before the latch opens.
+     */
+    public get count(): number {
+        return this.remaining;
+    }
+
+    /**
+     * Counts down, opening the latch and releasing all waiters once it reaches zero.
+     * Counting down an open latch does nothing.
+     * @param n How much to count down, defaults to 1
+     */
+    public countDown(n: number = 1): void {
+        if (n <= 0 || !Number.isInteger(n)) {
+            throw new Error("CountdownLatch count down must be a positive integer");
+        }
+        if (this.remaining === 0) {
+            return;
+        }
+        this.remaining = Math.max(0, this.remaining - n);
+        if (this.remaining === 0) {
+            this.waiters.splice(0).forEach(waiter => waiter());
+        }
+    }
+
+    /**
+     * Waits until the latch opens.
+     * @param options Optional signal and timeout to stop waiting
+     */
+    public async wait(options: WaitOptions = {}): Promise<void> {
+        options.signal?.throwIfAborted();
+        if (this.remaining === 0) {
+            return;
+        }
+        return waitFor<void>(options, grant => enqueue(this.waiters, () => grant()));
+    }
+}
@@ -0,0 +1,127 @@
+import type { Release } from "~/semaphore";
+
+export interface DebugOptions {
+    /** Warns when a permit is held for longer than this many ms */
+    holdWarningMs?: number;
+    /** Called with each warning, defaults to logging it with console.warn */
+    onWarning?: (warning: DebugWarning) => void;
+}
+
+/**
+ * - "held-too-long" when a permit is held for longer than `holdWarningMs`
+ * - "leaked" when a release function is garbage collected without being called
+ * - "double-release" when a release function is called again
+ */
+export type DebugWarningType = "held-too-long" | "leaked" | "double-release";
+
+export interface DebugWarning {
+    type: DebugWarningType;
+    message: string;
+    holder: HolderInfo;
+}
+
+export interface HolderInfo {
+    /** Identifies the holder, counting up from 1 for each acquisition */
+    id: number;
+    permits: number;
+    acquiredAt: number;
+    heldMs: number;
+    /** The stack of the call that acquired the permits */
+    stack?: string;
+}
+
+export interface WaiterInfo {
+    permits: number;
+    priority: number;
+    waitedMs: number;
+    /** The stack of the call that is waiting, in debug mode */
+    stack?: string;
+}
+
+/**
+ * A snapshot of who holds a lock, and who is waiting for it.
+ */
+export interface LockDump {
+    /** Current holders, which are only tracked in debug mode */
+    holders: HolderInfo[];
+    waiters: WaiterInfo[];
+}
+
+interface Holder {
+    id: number;
+    permits: number;
+    acquiredAt: number;
+    stack?: string;
+    timerId?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Tracks the holders of a lock in debug mode, warning about permits that are held too long,
+ * released twice, or never released at all.
+ */
+export class Tracker {
+    private readonly holdWarningMs?: number;
+    private readonly onWarning: (warning: DebugWarning) => void;
+    private readonly holders = new Set<Holder>();
+    private readonly registry?: FinalizationRegistry<Holder>;
+    private nextId: number = 1;
+
+    public constructor(options: DebugOptions = {}) {
+        this.holdWarningMs = options.holdWarningMs;
+        this.onWarning = options.onWarning ?? (warning => console.warn(warning.message, warning.holder.stack));
+        if (typeof FinalizationRegistry !== "undefined") {
+            this.registry = new FinalizationRegistry(holder =>
+                this.warn("leaked", "Release was garbage collected without being called", holder)
+            );
+        }
+    }
+
+    /**
+     * Captures the stack of the current call.
+     */
+    public capture(): string | undefined {
+        return new Error("Acquired here").stack;
+    }
+
+    /**
+     * Tracks a holder until its release function is called, returning the release function to hand out.
+     */
+    public track(release: Release, permits: number, stack?: string): Release {
+        const holder: Holder = { id: this.nextId++, permits, acquiredAt: Date.now(), stack };
+        if (this.holdWarningMs !== undefined) {
+            const ms = this.holdWarningMs;
+            holder.timerId = setTimeout(
+                () => this.warn("held-too-long", `Permit held for more than ${ms}ms`, holder),
+                ms
+            );
+        }
+        this.holders.add(holder);
+
+        // the registry must not reference the release function, or it would never be collected
+        const tracked = () => {
+            if (!release()) {
+                this.warn("double-release", "Release was called more than once", holder);
+                return false;
+            }
+            clearTimeout(holder.timerId);
+            this.holders.delete(holder);
+            this.registry?.unregister(holder);
+            return true;
+        };
+        this.registry?.register(tracked, holder, holder);
+        return tracked;
+    }
+
+    public dump(): HolderInfo[] {
+        return [...this.holders].map(holder => this.info(holder));
+    }
+
+    private info(holder: Holder): HolderInfo {
+        const { id, permits, acquiredAt, stack } = holder;
+        return { id, permits, acquiredAt, heldMs: Date.now() - acquiredAt, stack };
+    }
+
+    private warn(type: DebugWarningType, message: string, holder: Holder): void {
+        this.onWarning({ type, message, holder: this.info(holder) });
+    }
+}
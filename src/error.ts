@@ -8,9 +8,62 @@ export class TimeoutError extends Error {
 export class RetryError extends Error {
     constructor(
         message = "Retry failed",
-        public readonly lastError?: Error
+        public readonly lastError?: Error,
+        public readonly errors: any[] = lastError === undefined ? [] : [lastError]
     ) {
         super(message);
         this.name = "RetryError";
     }
 }
+
+export class PoolClosedError extends Error {
+    constructor(message = "Task pool is closed") {
+        super(message);
+        this.name = "PoolClosedError";
+    }
+}
+
+export class CircuitOpenError extends Error {
+    constructor(message = "Circuit is open") {
+        super(message);
+        this.name = "CircuitOpenError";
+    }
+}
+
+export class QueueFullError extends Error {
+    constructor(message = "Queue is full") {
+        super(message);
+        this.name = "QueueFullError";
+    }
+}
+
+export class CancelledError extends Error {
+    constructor(message = "Cancelled") {
+        super(message);
+        this.name = "CancelledError";
+    }
+}
+
+export class ChannelClosedError extends Error {
+    constructor(message = "Channel is closed") {
+        super(message);
+        this.name = "ChannelClosedError";
+    }
+}
+
+export interface TaskFailure {
+    /** The position of the task in the submitted list */
+    index: number;
+    reason: any;
+}
+
+export class AggregateTaskError<T = any> extends Error {
+    constructor(
+        message = "Some tasks failed",
+        public readonly failures: TaskFailure[] = [],
+        public readonly results: PromiseSettledResult<T>[] = []
+    ) {
+        super(message);
+        this.name = "AggregateTaskError";
+    }
+}
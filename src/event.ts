@@ -0,0 +1,109 @@
+import { enqueue, waitFor, WaitOptions } from "~/waiter";
+
+/**
+ * An event that, once set, lets every waiter through until it is reset.
+ *
+ * @example
+ * const ready = new ManualResetEvent();
+ * loadConfig().then(() => ready.set());
+ *
+ * await ready.wait(); // resolves once the config is loaded, and straight away after that
+ */
+export class ManualResetEvent {
+    private signaled: boolean;
+    private waiters: Array<() => void> = [];
+
+    public constructor(initial: boolean = false) {
+        this.signaled = initial;
+    }
+
+    public get isSet(): boolean {
+        return this.signaled;
+    }
+
+    /**
+     * Sets the event, releasing all waiters, and every later waiter until it is reset.
+     */
+    public set(): void {
+        this.signaled = true;
+        this.waiters.splice(0).forEach(waiter => waiter());
+    }
+
+    /**
+     * Resets the event, so later waiters wait for it to be set again.
+     */
+    public reset(): void {
+        this.signaled = false;
+    }
+
+    /**
+     * Waits until the event is set.
+     * @param options Optional signal and timeout to stop waiting
+     */
+    public async wait(options: WaitOptions = {}): Promise<void> {
+        options.signal?.throwIfAborted();
+        if (this.signaled) {
+            return;
+        }
+        return waitFor<void>(options, grant => enqueue(this.waiters, () => grant()));
+    }
+}
+
+/**
+ * An event that lets a single waiter through each time it is set, then resets itself.
+ * If no one is waiting when it is set, it stays set until the next waiter arrives.
+ *
+ * @example
+ * const itemAdded = new AutoResetEvent();
+ *
+ * // consumer
+ * while (true) {
+ *     await itemAdded.wait();
+ *     process(items.shift());
+ * }
+ *
+ * // producer
+ * items.push(item);
+ * itemAdded.set();
+ */
+export class AutoResetEvent {
+    private signaled: boolean;
+    private waiters: Array<() => void> = [];
+
+    public constructor(initial: boolean = false) {
+        this.signaled = initial;
+    }
+
+    public get isSet(): boolean {
+        return this.signaled;
+    }
+
+    /**
+     * Releases the longest waiting waiter, or sets the event for the next one if none are waiting.
+     */
+    public set(): void {
+        const waiter = this.waiters.shift();
+        if (waiter) {
+            waiter();
+        } else {
+            this.signaled = true;
+        }
+    }
+
+    public reset(): void {
+        this.signaled = false;
+    }
+
+    /**
+     * Waits until the event is set, resetting it again.
+     * @param options Optional signal and timeout to stop waiting
+     */
+    public async wait(options: WaitOptions = {}): Promise<void> {
+        options.signal?.throwIfAborted();
+        if (this.signaled) {
+            this.signaled = false;
+            return;
+        }
+        return waitFor<void>(options, grant => enqueue(this.waiters, () => grant()));
+    }
+}
@@ -3,3 +3,21 @@ export * from "./error";
 export * from "./semaphore";
 export * from "./task-pool";
 export * from "./mutex";
+export * from "./keyed-semaphore";
+export * from "./keyed-mutex";
+export * from "./rw-lock";
+export * from "./rate-limiter";
+export * from "./circuit-breaker";
+export * from "./countdown-latch";
+export * from "./barrier";
+export * from "./event";
+export * from "./condition";
+export * from "./async-queue";
+export * from "./channel";
+export * from "./collection";
+export * from "./iterator";
+export * from "./memoize";
+export * from "./pipeline";
+export type { DebugOptions, DebugWarning, DebugWarningType, HolderInfo, LockDump, WaiterInfo } from "./debug";
+export type { LockEvent, Percentiles, RetryEvent, TaskEvent } from "./metrics";
+export type { WaitOptions } from "./waiter";
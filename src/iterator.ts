@@ -0,0 +1,329 @@
+import { TimeoutError } from "~/error";
+
+export interface BatchOptions {
+    /** Maximum number of items in a batch */
+    size?: number;
+    /** Maximum time in ms a batch is held open after its first item */
+    windowMs?: number;
+}
+
+export interface MapConcurrentOptions {
+    /** Maximum number of items mapped at once */
+    concurrency: number;
+    /** Whether results are yielded in the order of the source, otherwise as they finish, defaults to true */
+    ordered?: boolean;
+}
+
+const WINDOW_CLOSED = Symbol("window closed");
+
+/**
+ * Maps each item of an async iterable.
+ */
+export async function* map<T, R>(
+    source: AsyncIterable<T>,
+    fn: (item: T, index: number) => R | Promise<R>
+): AsyncGenerator<R, void, undefined> {
+    let index = 0;
+    for await (const item of source) {
+        yield await fn(item, index++);
+    }
+}
+
+/**
+ * Keeps the items of an async iterable that pass the predicate.
+ */
+export async function* filter<T>(
+    source: AsyncIterable<T>,
+    predicate: (item: T, index: number) => boolean | Promise<boolean>
+): AsyncGenerator<T, void, undefined> {
+    let index = 0;
+    for await (const item of source) {
+        if (await predicate(item, index++)) {
+            yield item;
+        }
+    }
+}
+
+/**
+ * Yields the first `count` items of an async iterable, then closes it.
+ */
+export async function* take<T>(source: AsyncIterable<T>, count: number): AsyncGenerator<T, void, undefined> {
+    if (count <= 0) {
+        return;
+    }
+    let taken = 0;
+    for await (const item of source) {
+        yield item;
+        if (++taken >= count) {
+            return;
+        }
+    }
+}
+
+/**
+ * Groups the items of an async iterable into arrays, closing each batch once it is full,
+ * or once `windowMs` has passed since its first item, whichever comes first.
+ *
+ * @example
+ * // Write rows in batches of up to 100, waiting at most a second to fill a batch
+ * for await (const rows of batch(readRows(), { size: 100, windowMs: 1000 })) {
+ *     await db.insert(rows);
+ * }
+ */
+export async function* batch<T>(source: AsyncIterable<T>, options: BatchOptions): AsyncGenerator<T[], void, undefined> {
+    const { size = Infinity, windowMs } = options;
+    if (size === Infinity && windowMs === undefined) {
+        throw new Error("Batch needs a size or windowMs");
+    }
+    if (size !== Infinity && (size <= 0 || !Number.isInteger(size))) {
+        throw new Error("Batch size must be a positive integer");
+    }
+
+    const iterator = source[Symbol.asyncIterator]();
+    // a pull that outlasted the previous window carries over to the next batch
+    let pending: Promise<IteratorResult<T>> | undefined;
+    let done = false;
+    try {
+        while (!done) {
+            const items: T[] = [];
+            let timerId: ReturnType<typeof setTimeout> | undefined;
+            let window: Promise<typeof WINDOW_CLOSED> | undefined;
+            try {
+                while (items.length < size) {
+                    if (!pending) {
+                        pending = iterator.next();
+                        pending.catch(() => {});
+                    }
+                    const result = window ? await Promise.race([pending, window]) : await pending;
+                    if (result === WINDOW_CLOSED) {
+                        break;
+                    }
+                    pending = undefined;
+                    if (result.done) {
+                        done = true;
+                        break;
+                    }
+                    items.push(result.value);
+                    if (windowMs !== undefined && !window) {
+                        window = new Promise(resolve => (timerId = setTimeout(() => resolve(WINDOW_CLOSED), windowMs)));
+                    }
+                }
+            } finally {
+                clearTimeout(timerId);
+            }
+            if (items.length > 0) {
+                yield items;
+            }
+        }
+    } finally {
+        if (!done) close(iterator);
+    }
+}
+
+/**
+ * Groups the items of an async iterable into arrays of `size` items, with a smaller last array.
+ */
+export function chunk<T>(source: AsyncIterable<T>, size: number): AsyncGenerator<T[], void, undefined> {
+    return batch(source, { size });
+}
+
+/**
+ * Interleaves several async iterables, yielding items as soon as any of them produces one.
+ */
+export async function* merge<T>(...sources: AsyncIterable<T>[]): AsyncGenerator<T, void, undefined> {
+    const iterators = sources.map(source => source[Symbol.asyncIterator]());
+    const pending = new Map<number, Promise<{ index: number; result: IteratorResult<T> }>>();
+    const finished = new Set<number>();
+    const pull = (index: number) => {
+        pending.set(
+            index,
+            iterators[index].next().then(result => ({ index, result }))
+        );
+    };
+
+    try {
+        iterators.forEach((_, index) => pull(index));
+        while (pending.size > 0) {
+            const { index, result } = await Promise.race(pending.values());
+            pending.delete(index);
+            if (result.done) {
+                finished.add(index);
+                continue;
+            }
+            yield result.value;
+            pull(index);
+        }
+    } finally {
+        for (const promise of pending.values()) promise.catch(() => {});
+        iterators.forEach((iterator, index) => finished.has(index) || close(iterator));
+    }
+}
+
+/**
+ * Combines several async iterables into tuples of their items, ending with the shortest one.
+ */
+export async function* zip<T extends any[]>(
+    ...sources: { [K in keyof T]: AsyncIterable<T[K]> }
+): AsyncGenerator<T, void, undefined> {
+    const iterators: AsyncIterator<any>[] = sources.map(source => source[Symbol.asyncIterator]());
+    const finished = new Set<number>();
+    try {
+        while (true) {
+            const results = await Promise.all(iterators.map(iterator => iterator.next()));
+            results.forEach((result, index) => result.done && finished.add(index));
+            if (finished.size > 0) {
+                return;
+            }
+            yield results.map(result => result.value) as T;
+        }
+    } finally {
+        iterators.forEach((iterator, index) => finished.has(index) || close(iterator));
+    }
+}
+
+/**
+ * Reads ahead up to `size` items from an async iterable, so a slow consumer does not hold up the source.
+ */
+export async function* buffer<T>(source: AsyncIterable<T>, size: number): AsyncGenerator<T, void, undefined> {
+    if (size <= 0 || !Number.isInteger(size)) {
+        throw new Error("Buffer size must be a positive integer");
+    }
+
+    const iterator = source[Symbol.asyncIterator]();
+    const items: T[] = [];
+    let failure: { error: any } | undefined;
+    let done = false;
+    let stopped = false;
+    let onItem: (() => void) | undefined;
+    let onSpace: (() => void) | undefined;
+
+    const pump = async () => {
+        try {
+            while (!stopped) {
+                if (items.length >= size) {
+                    await new Promise<void>(resolve => (onSpace = resolve));
+                    continue;
+                }
+                const result = await iterator.next();
+                if (result.done) break;
+                items.push(result.value);
+                onItem?.();
+            }
+        } catch (error) {
+            failure = { error };
+        } finally {
+            done = true;
+            onItem?.();
+        }
+    };
+
+    pump();
+    try {
+        while (true) {
+            if (items.length > 0) {
+                const item = items.shift() as T;
+                onSpace?.();
+                yield item;
+            } else if (failure) {
+                throw failure.error;
+            } else if (done) {
+                return;
+            } else {
+                await new Promise<void>(resolve => (onItem = resolve));
+            }
+        }
+    } finally {
+        stopped = true;
+        onSpace?.();
+        if (!done) close(iterator);
+    }
+}
+
+/**
+ * Maps the items of an async iterable with a concurrency limit, reading the source only when a slot is free.
+ *
+ * @example
+ * for await (const user of mapConcurrent(userIds, id => fetchUser(id), { concurrency: 5 })) {
+ *     render(user);
+ * }
+ */
+export async function* mapConcurrent<T, R>(
+    source: AsyncIterable<T>,
+    fn: (item: T, index: number) => R | Promise<R>,
+    options: MapConcurrentOptions
+): AsyncGenerator<R, void, undefined> {
+    const { concurrency, ordered = true } = options;
+    if (concurrency <= 0 || !Number.isInteger(concurrency)) {
+        throw new Error("Concurrency must be a positive integer");
+    }
+
+    const iterator = source[Symbol.asyncIterator]();
+    const running = new Map<number, Promise<{ index: number; value: R }>>();
+    let index = 0;
+    let next = 0;
+    let exhausted = false;
+    try {
+        while (true) {
+            while (!exhausted && running.size < concurrency) {
+                const result = await iterator.next();
+                if (result.done) {
+                    exhausted = true;
+                    break;
+                }
+                const i = index++;
+                const task = new Promise<R>(pass => pass(fn(result.value, i))).then(value => ({ index: i, value }));
+                // rejections are rethrown when the task is awaited, which may be after others
+                task.catch(() => {});
+                running.set(i, task);
+            }
+            if (running.size === 0) {
+                return;
+            }
+            const task = ordered ? running.get(next++) : Promise.race(running.values());
+            const { index: settled, value } = await (task as Promise<{ index: number; value: R }>);
+            running.delete(settled);
+            yield value;
+        }
+    } finally {
+        if (!exhausted) close(iterator);
+    }
+}
+
+/**
+ * Throws a TimeoutError if the next item of an async iterable takes longer than `ms` to arrive,
+ * measured from when it is asked for.
+ */
+export async function* timeoutEach<T>(source: AsyncIterable<T>, ms: number): AsyncGenerator<T, void, undefined> {
+    const iterator = source[Symbol.asyncIterator]();
+    let done = false;
+    try {
+        while (true) {
+            let timerId: ReturnType<typeof setTimeout> | undefined;
+            const next = iterator.next();
+            next.catch(() => {});
+            const expired = new Promise<never>((_, reject) => {
+                timerId = setTimeout(() => reject(new TimeoutError()), ms);
+            });
+            let result: IteratorResult<T>;
+            try {
+                result = await Promise.race([next, expired]);
+            } finally {
+                clearTimeout(timerId);
+            }
+            if (result.done) {
+                done = true;
+                return;
+            }
+            yield result.value;
+        }
+    } finally {
+        if (!done) close(iterator);
+    }
+}
+
+/**
+ * Tells an iterator that no more items will be read, without waiting for it to clean up.
+ */
+function close(iterator: AsyncIterator<unknown>): void {
+    Promise.resolve(iterator.return?.()).catch(() => {});
+}
@@ -0,0 +1,39 @@
+import { KeyedSemaphore } from "~/keyed-semaphore";
+import { AcquireOptions, Release } from "~/semaphore";
+
+/**
+ * A registry of mutexes, one per key, for serializing access to each resource separately.
+ *
+ * The mutex for a key is created when it is first acquired, and deleted once nobody
+ * holds or waits on it, so keys do not accumulate over time.
+ *
+ * @example
+ * const locks = new KeyedMutex<string>();
+ * // Writes to the same file are sequential, writes to different files are parallel
+ * await locks.use(path, () => appendLine(path, line));
+ */
+export class KeyedMutex<K> {
+    private semaphore = new KeyedSemaphore<K>(1);
+
+    /**
+     * The keys that are currently held or waited on.
+     */
+    public get keys(): K[] {
+        return this.semaphore.keys;
+    }
+
+    /**
+     * Whether the key is currently held or waited on.
+     */
+    public isLocked(key: K): boolean {
+        return this.semaphore.isLocked(key);
+    }
+
+    public async acquire(key: K, options?: AcquireOptions): Promise<Release> {
+        return this.semaphore.acquire(key, options);
+    }
+
+    public async use<T>(key: K, fn: () => Promise<T> | T, options?: AcquireOptions): Promise<T> {
+        return this.semaphore.use(key, fn, options);
+    }
+}
@@ -0,0 +1,129 @@
+import { AcquireOptions, Release, Semaphore, SemaphoreOptions } from "~/semaphore";
+
+/**
+ * A registry of semaphores, one per key, for limiting concurrent access to each resource separately.
+ *
+ * The semaphore for a key is created when it is first acquired, and deleted once nobody
+ * holds or waits on it, so keys do not accumulate over time.
+ *
+ * @example
+ * const uploads = new KeyedSemaphore<string>(2);
+ * // At most 2 uploads per user at a time
+ * await uploads.use(userId, () => upload(userId, file));
+ */
+export class KeyedSemaphore<K> {
+    public readonly capacity: number;
+    private readonly options?: SemaphoreOptions;
+    private semaphores = new Map<K, Semaphore>();
+
+    /**
+     * Creates a new keyed semaphore with the specified capacity per key.
+     * @param capacity Maximum number of concurrent operations allowed for each key
+     * @param options Optional aging of waiter priorities
+     */
+    public constructor(capacity: number, options?: SemaphoreOptions) {
+        if (capacity <= 0 || !Number.isInteger(capacity)) {
+            throw new Error("Semaphore capacity must be a positive integer");
+        }
+        this.capacity = capacity;
+        this.options = options;
+    }
+
+    /**
+     * The keys that are currently held or waited on.
+     */
+    public get keys(): K[] {
+        return [...this.semaphores.keys()];
+    }
+
+    /**
+     * Whether the key is currently held or waited on.
+     */
+    public isLocked(key: K): boolean {
+        return this.semaphores.has(key);
+    }
+
+    /**
+     * The number of permits in use for the key.
+     */
+    public used(key: K): number {
+        return this.semaphores.get(key)?.used ?? 0;
+    }
+
+    /**
+     * Attempts to acquire permits for the key without waiting.
+     * @returns A release function if successful, null otherwise
+     */
+    public tryAcquire(key: K, permits: number = 1): Release | null {
+        const semaphore = this.semaphore(key);
+        try {
+            const release = semaphore.tryAcquire(permits);
+            return release && this.wrap(key, semaphore, release);
+        } finally {
+            this.prune(key, semaphore);
+        }
+    }
+
+    /**
+     * Acquires permits for the key.
+     * @returns A function that releases the permits when called
+     */
+    public async acquire(key: K, options?: AcquireOptions): Promise<Release>;
+    public async acquire(key: K, permits: number, options?: AcquireOptions): Promise<Release>;
+    public async acquire(key: K, permits: number | AcquireOptions = 1, options?: AcquireOptions): Promise<Release> {
+        const semaphore = this.semaphore(key);
+        try {
+            const release =
+                typeof permits === "number"
+                    ? await semaphore.acquire(permits, options)
+                    : await semaphore.acquire(permits);
+            return this.wrap(key, semaphore, release);
+        } catch (error) {
+            this.prune(key, semaphore);
+            throw error;
+        }
+    }
+
+    public async use<T>(key: K, fn: () => Promise<T> | T, options?: AcquireOptions): Promise<T>;
+    public async use<T>(key: K, fn: () => Promise<T> | T, permits: number, options?: AcquireOptions): Promise<T>;
+    public async use<T>(
+        key: K,
+        fn: () => Promise<T> | T,
+        permits: number | AcquireOptions = 1,
+        options?: AcquireOptions
+    ): Promise<T> {
+        const release =
+            typeof permits === "number" ? await this.acquire(key, permits, options) : await this.acquire(key, permits);
+        try {
+            return await fn();
+        } finally {
+            release();
+        }
+    }
+
+    private semaphore(key: K): Semaphore {
+        let semaphore = this.semaphores.get(key);
+        if (!semaphore) {
+            semaphore = new Semaphore(this.capacity, this.options);
+            this.semaphores.set(key, semaphore);
+        }
+        return semaphore;
+    }
+
+    private wrap(key: K, semaphore: Semaphore, release: Release): Release {
+        return () => {
+            const released = release();
+            this.prune(key, semaphore);
+            return released;
+        };
+    }
+
+    /**
+     * Deletes the semaphore for the key once nobody holds or waits on it.
+     */
+    private prune(key: K, semaphore: Semaphore): void {
+        if (semaphore.used === 0 && semaphore.waiting === 0 && this.semaphores.get(key) === semaphore) {
+            this.semaphores.delete(key);
+        }
+    }
+}
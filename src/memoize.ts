@@ -0,0 +1,138 @@
+export interface MemoizeOptions<A extends any[], K> {
+    /** Derives the cache key from the arguments, defaults to `JSON.stringify(args)` */
+    key?: (...args: A) => K;
+    /** How long in ms a value stays fresh once settled, defaults to forever */
+    ttl?: number;
+    /** Maximum number of cached keys, evicting the least recently used, defaults to no limit */
+    maxSize?: number;
+    /** Whether rejections are cached like values, otherwise the next call tries again, defaults to false */
+    cacheRejections?: boolean;
+    /**
+     * How long in ms after a value expires that it may still be returned, while it is refreshed
+     * in the background. Defaults to 0, so expired values are never returned.
+     */
+    staleWhileRevalidate?: number;
+}
+
+/**
+ * A memoized async function, with methods to manage its cache.
+ */
+export type MemoizedFn<A extends any[], R, K> = ((...args: A) => Promise<R>) & {
+    /**
+     * Removes the key from the cache, so the next call with it calls the function again.
+     * @returns Whether the key was cached
+     */
+    invalidate: (key: K) => boolean;
+    /** Removes all keys from the cache */
+    clear: () => void;
+};
+
+interface Entry<R> {
+    promise: Promise<R>;
+    settled: boolean;
+    expiresAt: number;
+    refreshing: boolean;
+}
+
+/**
+ * Decorate an async function to cache its results by key.
+ *
+ * Concurrent calls with the same key share a single in-flight promise. Once it resolves,
+ * the value is cached until the `ttl` elapses, or it is evicted to make room for other keys.
+ * Rejections are shared by the calls waiting for them, but are not cached unless `cacheRejections` is set.
+ *
+ * @example
+ * const getUser = memoizeAsync(fetchUser, { ttl: 60_000, maxSize: 1000 });
+ * const [a, b] = await Promise.all([getUser(1), getUser(1)]); // fetches once
+ * getUser.invalidate(JSON.stringify([1]));
+ *
+ * @example
+ * // Serve a stale config for up to a minute while fetching a fresh one
+ * const getConfig = memoizeAsync(fetchConfig, {
+ *     key: name => name,
+ *     ttl: 10_000,
+ *     staleWhileRevalidate: 60_000,
+ * });
+ */
+export function memoizeAsync<A extends any[], R, K = string>(
+    fn: (...args: A) => Promise<R>,
+    options: MemoizeOptions<A, K> = {}
+): MemoizedFn<A, R, K> {
+    const {
+        key = (...args: A) => JSON.stringify(args) as K,
+        ttl = Infinity,
+        maxSize = Infinity,
+        cacheRejections = false,
+        staleWhileRevalidate = 0,
+    } = options;
+    if (maxSize !== Infinity && (maxSize <= 0 || !Number.isInteger(maxSize))) {
+        throw new Error("memoizeAsync maxSize must be a positive integer");
+    }
+
+    const cache = new Map<K, Entry<R>>();
+
+    const store = (k: K, entry: Entry<R>) => {
+        // maps keep insertion order, so the first key is the least recently used
+        cache.delete(k);
+        cache.set(k, entry);
+        while (cache.size > maxSize) {
+            cache.delete(cache.keys().next().value as K);
+        }
+    };
+
+    const load = (k: K, args: A): Entry<R> => {
+        const entry: Entry<R> = { promise: fn(...args), settled: false, expiresAt: Infinity, refreshing: false };
+        const settle = () => {
+            entry.settled = true;
+            entry.expiresAt = Date.now() + ttl;
+        };
+        entry.promise.then(settle, () => {
+            if (cacheRejections) {
+                settle();
+            } else if (cache.get(k) === entry) {
+                cache.delete(k);
+            }
+        });
+        return entry;
+    };
+
+    const refresh = (k: K, args: A, stale: Entry<R>) => {
+        stale.refreshing = true;
+        const fresh = load(k, args);
+        fresh.promise.then(
+            () => {
+                if (cache.get(k) === stale) store(k, fresh);
+            },
+            () => {
+                // keep serving the stale value, and try again on the next call
+                stale.refreshing = false;
+                if (cacheRejections && cache.get(k) === stale) store(k, fresh);
+            }
+        );
+    };
+
+    const memoized = (...args: A): Promise<R> => {
+        const k = key(...args);
+        const entry = cache.get(k);
+        const now = Date.now();
+        if (entry) {
+            if (!entry.settled || now < entry.expiresAt) {
+                store(k, entry);
+                return entry.promise;
+            }
+            if (now < entry.expiresAt + staleWhileRevalidate) {
+                store(k, entry);
+                if (!entry.refreshing) refresh(k, args, entry);
+                return entry.promise;
+            }
+        }
+        const fresh = load(k, args);
+        store(k, fresh);
+        return fresh.promise;
+    };
+
+    return Object.assign(memoized, {
+        invalidate: (k: K) => cache.delete(k),
+        clear: () => cache.clear(),
+    });
+}
@@ -0,0 +1,93 @@
+/**
+ * Events emitted by a Semaphore, and the locks and pools built on it.
+ * Every event carries the time it happened, in ms since the epoch.
+ */
+export type LockEvent =
+    /** A request found no free permits, and started waiting */
+    | { type: "enqueue"; timestamp: number; permits: number }
+    /** Permits were granted, after waiting `waitMs` */
+    | { type: "acquire"; timestamp: number; permits: number; waitMs: number }
+    /** Permits were released, after being held for `heldMs` */
+    | { type: "release"; timestamp: number; permits: number; heldMs: number }
+    /** A request gave up waiting for permits, after its timeout elapsed */
+    | { type: "timeout"; timestamp: number; permits: number; waitMs: number };
+
+/**
+ * Events emitted by a TaskPool for each task, in addition to the lock events of its slots.
+ * `waitMs` is how long the task waited to start, and `runMs` is how long it ran for.
+ */
+export type TaskEvent =
+    | { type: "task-start"; timestamp: number; waitMs: number }
+    | { type: "task-success"; timestamp: number; waitMs: number; runMs: number }
+    | { type: "task-failure"; timestamp: number; waitMs: number; runMs: number; error: any };
+
+/**
+ * Emitted by `withRetry` before waiting for the next attempt.
+ */
+export interface RetryEvent {
+    type: "retry";
+    timestamp: number;
+    /** The attempt that failed, starting from 0 */
+    attempt: number;
+    /** How long until the next attempt */
+    delayMs: number;
+    /** How long since the first attempt started */
+    elapsedMs: number;
+    error: any;
+}
+
+/**
+ * A summary of recent durations in ms, over a sliding window of samples.
+ * All values are 0 when there are no samples.
+ */
+export interface Percentiles {
+    /** The number of samples in the window */
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+}
+
+/**
+ * Keeps the most recent durations in a ring buffer, so percentiles reflect recent behaviour
+ * while using a fixed amount of memory.
+ */
+export class Recorder {
+    private samples: number[] = [];
+    private next: number = 0;
+
+    public constructor(private readonly size: number = 1000) {}
+
+    public record(ms: number): void {
+        if (this.samples.length < this.size) {
+            this.samples.push(ms);
+        } else {
+            this.samples[this.next] = ms;
+            this.next = (this.next + 1) % this.size;
+        }
+    }
+
+    public percentiles(): Percentiles {
+        const sorted = [...this.samples].sort((a, b) => a - b);
+        const count = sorted.length;
+        if (count === 0) {
+            return { count, min: 0, max: 0, mean: 0, p50: 0, p90: 0, p95: 0, p99: 0 };
+        }
+        // nearest rank, so each percentile is a duration that was actually recorded
+        const at = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * count) - 1)];
+        return {
+            count,
+            min: sorted[0],
+            max: sorted[count - 1],
+            mean: sorted.reduce((sum, ms) => sum + ms, 0) / count,
+            p50: at(50),
+            p90: at(90),
+            p95: at(95),
+            p99: at(99),
+        };
+    }
+}
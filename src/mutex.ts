@@ -1,4 +1,16 @@
-import { Release, Semaphore } from "~/semaphore";
+import { DebugOptions, LockDump } from "~/debug";
+import { LockEvent } from "~/metrics";
+import { AcquireOptions, Release, Semaphore, SemaphoreStats } from "~/semaphore";
+
+export interface MutexOptions {
+    /**
+     * Records the acquire stack of the holder, and warns about locks that are held too long,
+     * released twice, or never released. The holder can be inspected with `dump()`.
+     */
+    debug?: boolean | DebugOptions;
+    /** Called when the lock is requested, acquired and released, and when a request times out */
+    onEvent?: (event: LockEvent) => void;
+}
 
 /**
  * A Mutex is a synchronization primitive that ensures only one asynchronous operation
@@ -26,13 +38,31 @@ import { Release, Semaphore } from "~/semaphore";
  * // Data is fetched sequentially, not in parallel
  */
 export class Mutex {
-    private semaphore = new Semaphore(1);
+    private semaphore: Semaphore;
+
+    public constructor(options: MutexOptions = {}) {
+        this.semaphore = new Semaphore(1, options);
+    }
+
+    public async acquire(options?: AcquireOptions): Promise<Release> {
+        return this.semaphore.acquire(options);
+    }
+
+    public async use<T>(fn: () => Promise<T> | T, options?: AcquireOptions): Promise<T> {
+        return this.semaphore.use(fn, options);
+    }
 
-    public async acquire(): Promise<Release> {
-        return this.semaphore.acquire();
+    /**
+     * A snapshot of the current holder and waiters, for debugging.
+     */
+    public dump(): LockDump {
+        return this.semaphore.dump();
     }
 
-    public async use<T>(fn: () => Promise<T> | T): Promise<T> {
-        return this.semaphore.use(fn);
+    /**
+     * A snapshot of the counters, and recent wait and hold times, for exporting to a metrics system.
+     */
+    public stats(): SemaphoreStats {
+        return this.semaphore.stats();
     }
 }
@@ -0,0 +1,167 @@
+import { Abortable, abortable, Duration, RetryPolicy, withRetry, withTimeout } from "~/async";
+import { CircuitBreaker, CircuitBreakerOptions } from "~/circuit-breaker";
+import { RateLimiter } from "~/rate-limiter";
+import { AcquireOptions, Semaphore } from "~/semaphore";
+import { invoke, isAbortable } from "~/signal";
+import { TaskPool } from "~/task-pool";
+
+/**
+ * The state of a single call through a pipeline, which each layer can read.
+ */
+export interface PipelineContext<D = undefined> {
+    /** The arguments the pipeline was called with, without the caller's signal */
+    args: any[];
+    /** Aborts when the call is cancelled, or a timeout around this layer elapses */
+    signal: AbortSignal;
+    /** The current attempt of the nearest retry layer, starting from 0 */
+    attempt: number;
+    /** When the call started, in ms since the epoch */
+    startedAt: number;
+    /** Data given by the caller for this call */
+    data: D;
+}
+
+export type Next<R, D = undefined> = (context: PipelineContext<D>) => Promise<R>;
+
+/**
+ * A layer of a pipeline, which calls `next` to run the layers inside it.
+ * A layer may pass a changed context down, such as a different signal.
+ */
+export type Layer<D = undefined> = <R>(context: PipelineContext<D>, next: Next<R, D>) => Promise<R>;
+
+export interface ExecuteOptions<D> {
+    /** Cancels the call */
+    signal?: AbortSignal;
+    /** Data for this call, which each layer can read */
+    data?: D;
+}
+
+/**
+ * Composes policies such as timeouts, retries and concurrency limits into a single reusable policy.
+ *
+ * Layers run in the order they are added, so the first layer is the outermost one.
+ * A timeout added before a retry limits the call as a whole, while a timeout added after
+ * a retry limits each attempt. Each method returns a new pipeline, leaving this one unchanged.
+ *
+ * @example
+ * const resilient = pipeline()
+ *     .timeout(10000) // overall
+ *     .retry({ tries: 3 })
+ *     .concurrency(semaphore)
+ *     .timeout(2000); // per attempt
+ *
+ * const fetchUserSafely = resilient.wrap(fetchUser);
+ * const user = await fetchUserSafely(id);
+ */
+export class Pipeline<D = undefined> {
+    public constructor(private readonly layers: Layer<D>[] = []) {}
+
+    /**
+     * Adds a custom layer.
+     */
+    public use(layer: Layer<D>): Pipeline<D> {
+        return new Pipeline([...this.layers, layer]);
+    }
+
+    /**
+     * Limits how long the layers inside may take, aborting them with a TimeoutError.
+     */
+    public timeout(ms: Duration): Pipeline<D> {
+        return this.use((context, next) =>
+            withTimeout(
+                abortable(signal => next({ ...context, signal })),
+                ms
+            )(context.signal)
+        );
+    }
+
+    /**
+     * Retries the layers inside when they fail, setting the context's `attempt` for each try.
+     */
+    public retry(policy: RetryPolicy = {}): Pipeline<D> {
+        return this.use((context, next) => {
+            let attempt = 0;
+            return withRetry(
+                abortable(signal => next({ ...context, signal, attempt: attempt++ })),
+                policy
+            )(context.signal);
+        });
+    }
+
+    /**
+     * Runs the layers inside once a permit or slot is free.
+     * @param options Optional priority and timeout to stop waiting, while the call's signal also stops waiting
+     */
+    public concurrency(limiter: Semaphore | TaskPool<any>, options: Omit<AcquireOptions, "signal"> = {}): Pipeline<D> {
+        return this.use((context, next) => {
+            const acquire = { ...options, signal: context.signal };
+            return limiter instanceof Semaphore
+                ? limiter.use(() => next(context), acquire)
+                : limiter.submit(() => next(context), acquire);
+        });
+    }
+
+    /**
+     * Waits for the rate limiter before running the layers inside.
+     * @param cost How much of the limit each call uses, defaults to 1
+     */
+    public rateLimit(limiter: RateLimiter, cost?: number): Pipeline<D> {
+        return this.use((context, next) => limiter.use(() => next(context), cost, { signal: context.signal }));
+    }
+
+    /**
+     * Runs the layers inside through a circuit breaker.
+     * Pass an existing CircuitBreaker to share it, otherwise each pipeline has its own.
+     */
+    public circuitBreaker(options: CircuitBreakerOptions | CircuitBreaker = {}): Pipeline<D> {
+        const breaker = options instanceof CircuitBreaker ? options : new CircuitBreaker(options);
+        return this.use((context, next) => breaker.use(() => next(context)));
+    }
+
+    /**
+     * Calls the function through each layer of the pipeline.
+     */
+    public execute<R>(fn: Next<R, D>, options: ExecuteOptions<D> = {}): Promise<R> {
+        return this.run(fn, [], options);
+    }
+
+    /**
+     * Decorate an async function with the pipeline.
+     *
+     * An abortable function receives an `AbortSignal`, which aborts when a timeout elapses
+     * or the caller's signal aborts, and the wrapped function is abortable too.
+     * Other functions are called with their arguments as is.
+     *
+     * @param data Optionally derives the data for each call from its arguments
+     */
+    public wrap<A extends any[], R>(fn: Abortable<A, R>, data?: (...args: A) => D): Abortable<A, R>;
+    public wrap<A extends any[], R>(
+        fn: (...args: A) => Promise<R>,
+        data?: (...args: A) => D
+    ): (...args: A) => Promise<R>;
+    public wrap<A extends any[], R>(fn: (...args: A) => Promise<R>, data?: (...args: A) => D) {
+        const call = (signal: AbortSignal | undefined, ...args: A): Promise<R> =>
+            this.run(context => invoke(fn, context.signal, args), args, { signal, data: data?.(...args) });
+        return isAbortable(fn) ? abortable<A, R>(call) : (...args: A) => call(undefined, ...args);
+    }
+
+    private run<R>(fn: Next<R, D>, args: any[], options: ExecuteOptions<D>): Promise<R> {
+        const context: PipelineContext<D> = {
+            args,
+            signal: options.signal ?? new AbortController().signal,
+            attempt: 0,
+            startedAt: Date.now(),
+            data: options.data as D,
+        };
+        const call = this.layers.reduceRight<Next<R, D>>((next, layer) => ctx => layer(ctx, next), fn);
+        return call(context);
+    }
+}
+
+/**
+ * Starts building a pipeline of policies.
+ * @see Pipeline
+ */
+export function pipeline<D = undefined>(): Pipeline<D> {
+    return new Pipeline<D>();
+}
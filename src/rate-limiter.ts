@@ -0,0 +1,244 @@
+import { enqueue, waitFor, WaitOptions } from "~/waiter";
+
+export type RateLimiterMode = "token-bucket" | "sliding-window";
+
+export interface RateLimiterOptions {
+    /** Maximum cost allowed per interval */
+    limit: number;
+    /** Length of the interval in ms */
+    intervalMs: number;
+    /**
+     * How the rate is measured, defaults to "token-bucket".
+     *
+     * A token bucket starts full and refills continuously, so it allows a burst of up to `limit` at once.
+     * A sliding window allows at most `limit` within any `intervalMs`.
+     */
+    mode?: RateLimiterMode;
+}
+
+interface Strategy {
+    /** The cost that could be taken right now */
+    available(now: number): number;
+    /** Takes the cost if available, returning whether it was taken */
+    take(cost: number, now: number): boolean;
+    /** The time in ms until the cost becomes available */
+    delay(cost: number, now: number): number;
+}
+
+class TokenBucket implements Strategy {
+    private tokens: number;
+    private last: number;
+
+    public constructor(
+        private readonly limit: number,
+        private readonly intervalMs: number,
+        now: number
+    ) {
+        this.tokens = limit;
+        this.last = now;
+    }
+
+    public available(now: number): number {
+        this.refill(now);
+        return Math.floor(this.tokens);
+    }
+
+    public take(cost: number, now: number): boolean {
+        this.refill(now);
+        if (this.tokens < cost) {
+            return false;
+        }
+        this.tokens -= cost;
+        return true;
+    }
+
+    public delay(cost: number, now: number): number {
+        this.refill(now);
+        return Math.max(0, Math.ceil(((cost - this.tokens) * this.intervalMs) / this.limit));
+    }
+
+    private refill(now: number): void {
+        this.tokens = Math.min(this.limit, this.tokens + ((now - this.last) * this.limit) / this.intervalMs);
+        this.last = now;
+    }
+}
+
+class SlidingWindow implements Strategy {
+    private events: Array<{ time: number; cost: number }> = [];
+    private used: number = 0;
+
+    public constructor(
+        private readonly limit: number,
+        private readonly intervalMs: number
+    ) {}
+
+    public available(now: number): number {
+        this.prune(now);
+        return this.limit - this.used;
+    }
+
+    public take(cost: number, now: number): boolean {
+        this.prune(now);
+        if (this.used + cost > this.limit) {
+            return false;
+        }
+        this.events.push({ time: now, cost });
+        this.used += cost;
+        return true;
+    }
+
+    public delay(cost: number, now: number): number {
+        this.prune(now);
+        let used = this.used;
+        for (const event of this.events) {
+            if (used + cost <= this.limit) {
+                break;
+            }
+            used -= event.cost;
+            if (used + cost <= this.limit) {
+                return event.time + this.intervalMs - now;
+            }
+        }
+        return 0;
+    }
+
+    private prune(now: number): void {
+        while (this.events.length > 0 && this.events[0].time + this.intervalMs <= now) {
+            this.used -= this.events[0].cost;
+            this.events.shift();
+        }
+    }
+}
+
+interface Waiter {
+    cost: number;
+    grant: () => void;
+}
+
+/**
+ * A rate limiter that limits how much work starts over time, such as N requests per interval.
+ * Requests are served in the order they are received.
+ *
+ * @example
+ * // At most 10 requests per second
+ * const limiter = new RateLimiter({ limit: 10, intervalMs: 1000 });
+ * const user = await limiter.use(() => fetchUser(id));
+ *
+ * @example
+ * // Requests cost differently against a quota of 1000 units per minute
+ * const limiter = new RateLimiter({ limit: 1000, intervalMs: 60_000, mode: "sliding-window" });
+ * await limiter.acquire(50);
+ */
+export class RateLimiter {
+    public readonly limit: number;
+    public readonly intervalMs: number;
+    public readonly mode: RateLimiterMode;
+    private strategy: Strategy;
+    private queue: Waiter[] = [];
+    private timerId?: ReturnType<typeof setTimeout>;
+
+    public constructor(options: RateLimiterOptions) {
+        const { limit, intervalMs, mode = "token-bucket" } = options;
+        if (limit <= 0 || !Number.isInteger(limit)) {
+            throw new Error("RateLimiter limit must be a positive integer");
+        }
+        if (intervalMs <= 0) {
+            throw new Error("RateLimiter intervalMs must be a positive number");
+        }
+        this.limit = limit;
+        this.intervalMs = intervalMs;
+        this.mode = mode;
+        this.strategy =
+            mode === "sliding-window"
+                ? new SlidingWindow(limit, intervalMs)
+                : new TokenBucket(limit, intervalMs, Date.now());
+    }
+
+    /**
+     * The cost that could be acquired right now without waiting.
+     */
+    public get available(): number {
+        return this.strategy.available(Date.now());
+    }
+
+    /**
+     * The number of requests waiting for their turn.
+     */
+    public get waiting(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Attempts to acquire without waiting.
+     * Fails if other requests are already waiting, so it never jumps the queue.
+     * @param cost How much of the limit to use, defaults to 1
+     * @returns Whether it was acquired
+     */
+    public tryAcquire(cost: number = 1): boolean {
+        this.validate(cost);
+        return this.queue.length === 0 && this.strategy.take(cost, Date.now());
+    }
+
+    /**
+     * Waits until the cost fits within the rate limit.
+     * @param cost How much of the limit to use, defaults to 1
+     * @param options Optional signal and timeout to stop waiting
+     */
+    public async acquire(cost: number = 1, options: WaitOptions = {}): Promise<void> {
+        this.validate(cost);
+        options.signal?.throwIfAborted();
+
+        if (this.tryAcquire(cost)) {
+            return;
+        }
+
+        return waitFor<void>(options, grant => {
+            const waiter: Waiter = { cost, grant: () => grant() };
+            const leave = enqueue(this.queue, waiter);
+            this.schedule();
+
+            return () => {
+                if (!leave()) return false;
+                this.dispatch();
+                return true;
+            };
+        });
+    }
+
+    public async use<T>(fn: () => Promise<T> | T, cost?: number, options?: WaitOptions): Promise<T> {
+        await this.acquire(cost, options);
+        return await fn();
+    }
+
+    private validate(cost: number): void {
+        if (cost <= 0 || !Number.isInteger(cost)) {
+            throw new Error("RateLimiter cost must be a positive integer");
+        }
+        if (cost > this.limit) {
+            throw new Error(`Cannot acquire ${cost} from a rate limiter with limit ${this.limit}`);
+        }
+    }
+
+    /**
+     * Serves waiters in order, for as long as the rate allows.
+     */
+    private dispatch(): void {
+        while (this.queue.length > 0 && this.strategy.take(this.queue[0].cost, Date.now())) {
+            const next = this.queue.shift();
+            if (next) next.grant();
+        }
+        this.schedule();
+    }
+
+    /**
+     * Sets a timer for when the next waiter can be served.
+     */
+    private schedule(): void {
+        clearTimeout(this.timerId);
+        this.timerId = undefined;
+        if (this.queue.length > 0) {
+            const ms = this.strategy.delay(this.queue[0].cost, Date.now());
+            this.timerId = setTimeout(() => this.dispatch(), Math.max(1, ms));
+        }
+    }
+}
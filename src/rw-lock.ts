@@ -0,0 +1,211 @@
+import { Release } from "~/semaphore";
+import { enqueue, waitFor, WaitOptions } from "~/waiter";
+
+/**
+ * Releases a write lock, or downgrades it to a read lock without letting a writer in between.
+ */
+export type WriteRelease = Release & {
+    downgrade: () => Release;
+};
+
+export interface RWLockOptions {
+    /**
+     * When true, new readers wait while a writer is waiting, so readers cannot starve writers.
+     * Otherwise requests are served in the order they are received.
+     */
+    preferWriters?: boolean;
+}
+
+interface Waiter {
+    write: boolean;
+    grant: () => void;
+}
+
+/**
+ * A read/write lock allows many concurrent readers, or a single writer.
+ *
+ * @example
+ * const lock = new RWLock();
+ * const value = await lock.useRead(() => cache.get(key));
+ * await lock.useWrite(() => cache.set(key, value));
+ *
+ * @example
+ * const release = await lock.acquireWrite();
+ * cache.set(key, value);
+ * const releaseRead = release.downgrade(); // other readers may now enter
+ * try {
+ *     await render(cache.get(key));
+ * } finally {
+ *     releaseRead();
+ * }
+ */
+export class RWLock {
+    public readonly preferWriters: boolean;
+    private readCount: number = 0;
+    private writing: boolean = false;
+    private queue: Waiter[] = [];
+
+    public constructor(options: RWLockOptions = {}) {
+        this.preferWriters = options.preferWriters ?? false;
+    }
+
+    /**
+     * The number of readers holding the lock.
+     */
+    public get readers(): number {
+        return this.readCount;
+    }
+
+    /**
+     * Whether a writer holds the lock.
+     */
+    public get isWriteLocked(): boolean {
+        return this.writing;
+    }
+
+    /**
+     * Attempts to acquire a read lock without waiting.
+     * @returns A release function if successful, null otherwise
+     */
+    public tryAcquireRead(): Release | null {
+        if (!this.writing && this.queue.length === 0) {
+            this.readCount++;
+            return this.releaseRead();
+        }
+        return null;
+    }
+
+    /**
+     * Attempts to acquire a write lock without waiting.
+     * @returns A release function if successful, null otherwise
+     */
+    public tryAcquireWrite(): WriteRelease | null {
+        if (!this.writing && this.readCount === 0 && this.queue.length === 0) {
+            this.writing = true;
+            return this.releaseWrite();
+        }
+        return null;
+    }
+
+    /**
+     * Acquires a read lock, shared with other readers.
+     * @param options Optional signal and timeout to stop waiting for the lock
+     * @returns A function that releases the read lock when called
+     */
+    public async acquireRead(options: WaitOptions = {}): Promise<Release> {
+        options.signal?.throwIfAborted();
+        return this.tryAcquireRead() ?? this.enqueue(false, options, () => this.releaseRead());
+    }
+
+    /**
+     * Acquires a write lock, exclusive of all readers and other writers.
+     * @param options Optional signal and timeout to stop waiting for the lock
+     * @returns A function that releases the write lock when called
+     */
+    public async acquireWrite(options: WaitOptions = {}): Promise<WriteRelease> {
+        options.signal?.throwIfAborted();
+        return this.tryAcquireWrite() ?? this.enqueue(true, options, () => this.releaseWrite());
+    }
+
+    public async useRead<T>(fn: () => Promise<T> | T, options?: WaitOptions): Promise<T> {
+        const release = await this.acquireRead(options);
+        try {
+            return await fn();
+        } finally {
+            release();
+        }
+    }
+
+    public async useWrite<T>(fn: () => Promise<T> | T, options?: WaitOptions): Promise<T> {
+        const release = await this.acquireWrite(options);
+        try {
+            return await fn();
+        } finally {
+            release();
+        }
+    }
+
+    private enqueue<R>(write: boolean, options: WaitOptions, release: () => R): Promise<R> {
+        return waitFor<R>(options, grant => {
+            const waiter: Waiter = {
+                write,
+                grant: () => {
+                    if (write) {
+                        this.writing = true;
+                    } else {
+                        this.readCount++;
+                    }
+                    grant(release());
+                },
+            };
+            const leave = enqueue(this.queue, waiter);
+
+            return () => {
+                if (!leave()) return false;
+                // the cancelled waiter may have been blocking others behind it
+                this.dispatch();
+                return true;
+            };
+        });
+    }
+
+    private releaseRead(): Release {
+        let released = false;
+        return () => {
+            if (released) {
+                return false;
+            }
+
+            released = true;
+            this.readCount--;
+            this.dispatch();
+
+            return true;
+        };
+    }
+
+    private releaseWrite(): WriteRelease {
+        let released = false;
+        const release = () => {
+            if (released) {
+                return false;
+            }
+
+            released = true;
+            this.writing = false;
+            this.dispatch();
+
+            return true;
+        };
+        const downgrade = () => {
+            if (released) {
+                throw new Error("Cannot downgrade a write lock that has been released");
+            }
+
+            released = true;
+            this.writing = false;
+            this.readCount++;
+            this.dispatch();
+
+            return this.releaseRead();
+        };
+        return Object.assign(release, { downgrade });
+    }
+
+    /**
+     * Grants the lock to waiters in order, letting in consecutive readers together.
+     * When preferring writers, the first waiting writer goes ahead of all waiting readers.
+     */
+    private dispatch(): void {
+        while (this.queue.length > 0 && !this.writing) {
+            const writer = this.preferWriters ? this.queue.findIndex(waiter => waiter.write) : -1;
+            const index = writer < 0 ? 0 : writer;
+            const waiter = this.queue[index];
+            if (waiter.write && this.readCount > 0) {
+                break;
+            }
+            this.queue.splice(index, 1);
+            waiter.grant();
+        }
+    }
+}
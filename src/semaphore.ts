@@ -1,88 +1,430 @@
-import { deferred } from "~/async";
+import { Reject } from "~/async";
+import { DebugOptions, LockDump, Tracker } from "~/debug";
+import { QueueFullError, TimeoutError } from "~/error";
+import { LockEvent, Percentiles, Recorder } from "~/metrics";
+import { waitFor, WaitOptions } from "~/waiter";
 
 export type Callback = () => void;
 export type Release = () => boolean;
 
+export interface AcquireOptions extends WaitOptions {
+    /** Waiters with a higher priority are served first, defaults to 0 */
+    priority?: number;
+}
+
+export interface SemaphoreOptions {
+    /**
+     * Raises the priority of a waiter by 1 for every `agingMs` it has been waiting,
+     * so that low priority waiters are not starved forever.
+     */
+    agingMs?: number;
+    /** Maximum number of waiters, beyond which requests are rejected with a QueueFullError */
+    maxQueue?: number;
+    /** Maximum time in ms a request may wait, after which it is rejected with a QueueFullError */
+    maxQueueWaitMs?: number;
+    /**
+     * What to do when the queue is full.
+     * "reject-new" rejects the new request, while "drop-oldest" rejects the longest waiting request
+     * to make room for the new one. Defaults to "reject-new".
+     */
+    overflow?: "reject-new" | "drop-oldest";
+    /**
+     * Records the acquire stack of each holder, and warns about permits that are held too long,
+     * released twice, or never released. Holders can be inspected with `dump()`.
+     * This has a cost, so it is meant for tracking down bugs rather than for production.
+     */
+    debug?: boolean | DebugOptions;
+    /** Called when permits are requested, granted and released, and when a request times out */
+    onEvent?: (event: LockEvent) => void;
+}
+
+export interface SemaphoreStats {
+    /** The number of times permits were granted */
+    acquired: number;
+    /** The number of requests that found no free permits, and had to wait */
+    enqueued: number;
+    /** The number of requests that gave up waiting after their timeout elapsed */
+    timedOut: number;
+    /** The number of requests rejected because the queue was full, or they waited too long */
+    rejected: number;
+    used: number;
+    waiting: number;
+    /** How long recent requests waited for permits, including those granted straight away */
+    waitMs: Percentiles;
+    /** How long recent permits were held */
+    heldMs: Percentiles;
+}
+
+interface Waiter {
+    permits: number;
+    priority: number;
+    since: number;
+    /** The order of arrival, for breaking ties between waiters */
+    seq: number;
+    grant: Callback;
+    fail: Reject;
+    stack?: string;
+    timerId?: ReturnType<typeof setTimeout>;
+}
+
 /**
  * A semaphore implementation that limits concurrent access to resources.
- * Provides fair scheduling by serving requests in the order they are received.
+ * Provides fair scheduling by serving requests in the order they are received,
+ * with higher priority requests served first.
+ *
+ * Each acquisition may take several permits at once, such as when limiting by cost.
+ * A waiter at the head of the queue blocks those behind it until enough permits are free,
+ * so large requests are not starved by a stream of small ones.
+ *
+ * The queue may be bounded in length and wait time, so that load is shed during traffic spikes
+ * instead of piling up.
  */
 export class Semaphore {
-    public readonly capacity: number;
+    private limit: number;
+    private readonly maxQueue: number;
+    private readonly maxQueueWaitMs?: number;
+    private readonly overflow: "reject-new" | "drop-oldest";
     private count: number = 0;
-    private queue: Callback[] = [];
+    private shed: number = 0;
+    private paused: boolean = false;
+    private readonly queue: WaitQueue;
+    private seq: number = 0;
+    private readonly tracker?: Tracker;
+    private readonly onEvent?: (event: LockEvent) => void;
+    private acquired: number = 0;
+    private enqueued: number = 0;
+    private timedOut: number = 0;
+    private waitTimes = new Recorder();
+    private heldTimes = new Recorder();
 
     /**
      * Creates a new semaphore with the specified capacity.
      * @param capacity Maximum number of concurrent operations allowed
+     * @param options Optional aging of waiter priorities, and limits on the queue
      */
-    public constructor(capacity: number) {
+    public constructor(capacity: number, options: SemaphoreOptions = {}) {
         if (capacity <= 0 || !Number.isInteger(capacity)) {
             throw new Error("Semaphore capacity must be a positive integer");
         }
-        this.capacity = capacity;
+        if (options.agingMs !== undefined && options.agingMs <= 0) {
+            throw new Error("Semaphore agingMs must be a positive number");
+        }
+        if (options.maxQueue !== undefined && (options.maxQueue < 0 || !Number.isInteger(options.maxQueue))) {
+            throw new Error("Semaphore maxQueue must be a non-negative integer");
+        }
+        this.limit = capacity;
+        this.queue = new WaitQueue(options.agingMs);
+        this.maxQueue = options.maxQueue ?? Infinity;
+        this.maxQueueWaitMs = options.maxQueueWaitMs;
+        this.overflow = options.overflow ?? "reject-new";
+        this.onEvent = options.onEvent;
+        if (options.debug) {
+            this.tracker = new Tracker(options.debug === true ? {} : options.debug);
+        }
+    }
+
+    /**
+     * Maximum number of concurrent operations allowed.
+     */
+    public get capacity(): number {
+        return this.limit;
     }
 
     public get used(): number {
         return this.count;
     }
 
+    /**
+     * The number of free permits, which is 0 while more are in use than the capacity allows after shrinking.
+     */
     public get permits(): number {
-        return this.capacity - this.count;
+        return Math.max(0, this.limit - this.count);
+    }
+
+    /**
+     * The number of requests waiting for permits.
+     */
+    public get waiting(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * The number of requests rejected because the queue was full, or they waited too long.
+     */
+    public get rejected(): number {
+        return this.shed;
+    }
+
+    /**
+     * Whether the semaphore has stopped granting permits.
+     */
+    public get isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Stops granting permits, so all requests wait in the queue.
+     * Current holders are unaffected, and may still release their permits.
+     */
+    public pause(): void {
+        this.paused = true;
+    }
+
+    /**
+     * Resumes granting permits, serving waiters in the order they would have been served.
+     */
+    public resume(): void {
+        this.paused = false;
+        this.dispatch();
     }
 
     /**
-     * Attempts to acquire a permit without waiting.
+     * Attempts to acquire permits without waiting.
+     * Fails if other requests are already waiting, so it never jumps the queue, or if paused.
+     * @param permits Number of permits to acquire, defaults to 1
      * @returns A release function if successful, null otherwise
      */
-    public tryAcquire(): Release | null {
-        if (this.count < this.capacity) {
-            this.count++;
-            return this.release();
+    public tryAcquire(permits: number = 1): Release | null {
+        this.validate(permits);
+        if (!this.paused && this.queue.length === 0 && this.count + permits <= this.limit) {
+            this.count += permits;
+            return this.release(permits);
         }
         return null;
     }
 
     /**
-     * Acquires a permit from the semaphore.
-     * @returns A function that releases the permit when called
+     * Acquires permits from the semaphore.
+     * A waiter that is aborted or times out is removed from the queue, and never receives a permit.
+     * @param permits Number of permits to acquire, defaults to 1
+     * @param options Optional priority, and signal and timeout to stop waiting for a permit
+     * @returns A function that releases the permits when called
      */
-    public async acquire(): Promise<Release> {
-        if (this.count < this.capacity) {
-            this.count++;
-            return this.release();
+    public async acquire(options?: AcquireOptions): Promise<Release>;
+    public async acquire(permits: number, options?: AcquireOptions): Promise<Release>;
+    public async acquire(permits: number | AcquireOptions = 1, options: AcquireOptions = {}): Promise<Release> {
+        if (typeof permits !== "number") {
+            return this.acquire(1, permits);
         }
 
-        const { promise, resolve } = deferred<Release>();
-        this.queue.push(() => {
-            this.count++;
-            resolve(this.release());
+        const { signal, priority = 0 } = options;
+        this.validate(permits);
+        signal?.throwIfAborted();
+
+        const release = this.tryAcquire(permits);
+        if (release) {
+            return release;
+        }
+
+        if (this.queue.length >= this.maxQueue) {
+            const oldest = this.queue.oldest();
+            if (this.overflow === "reject-new" || !oldest) {
+                this.shed++;
+                throw new QueueFullError();
+            }
+            this.drop(oldest, new QueueFullError());
+        }
+
+        const since = Date.now();
+        const granted = waitFor<Release>(options, (grant, fail) => {
+            const waiter: Waiter = {
+                permits,
+                priority,
+                since,
+                seq: this.seq++,
+                grant: () => {
+                    clearTimeout(waiter.timerId);
+                    this.count += permits;
+                    grant(this.release(permits, since, waiter.stack));
+                },
+                fail,
+                stack: this.tracker?.capture(),
+            };
+            if (this.maxQueueWaitMs !== undefined) {
+                const error = new QueueFullError("Waited too long in the queue");
+                waiter.timerId = setTimeout(() => this.drop(waiter, error), this.maxQueueWaitMs);
+            }
+            this.queue.push(waiter);
+            this.enqueued++;
+            this.emit({ type: "enqueue", timestamp: since, permits });
+
+            return () => {
+                if (!this.queue.remove(waiter)) return false;
+                clearTimeout(waiter.timerId);
+                // the cancelled waiter may have been blocking others behind it
+                this.dispatch();
+                return true;
+            };
         });
 
-        return promise;
+        return granted.catch(error => {
+            if (error instanceof TimeoutError) {
+                const timestamp = Date.now();
+                this.timedOut++;
+                this.emit({ type: "timeout", timestamp, permits, waitMs: timestamp - since });
+            }
+            throw error;
+        });
+    }
+
+    /**
+     * Rejects a waiter to shed load, serving those behind it if it was blocking them.
+     */
+    private drop(waiter: Waiter, reason: QueueFullError): void {
+        if (!this.queue.remove(waiter)) return;
+        clearTimeout(waiter.timerId);
+        this.shed++;
+        waiter.fail(reason);
+        this.dispatch();
+    }
+
+    /**
+     * Changes the capacity of the semaphore.
+     *
+     * Growing grants permits to waiters straight away. Shrinking lets current holders finish,
+     * and grants no more permits until usage falls below the new capacity.
+     * Waiters that ask for more permits than the new capacity are rejected.
+     *
+     * @param capacity New maximum number of concurrent operations allowed
+     */
+    public resize(capacity: number): void {
+        if (capacity <= 0 || !Number.isInteger(capacity)) {
+            throw new Error("Semaphore capacity must be a positive integer");
+        }
+        this.limit = capacity;
+
+        for (const waiter of this.queue.toArray().filter(waiter => waiter.permits > capacity)) {
+            clearTimeout(waiter.timerId);
+            this.queue.remove(waiter);
+            waiter.fail(this.oversize(waiter.permits));
+        }
+        this.dispatch();
+    }
+
+    /**
+     * Rejects all waiting requests, without affecting current holders.
+     * @param reason The reason to reject the waiters with
+     */
+    public rejectWaiting(reason: any): void {
+        for (const waiter of this.queue.clear()) {
+            clearTimeout(waiter.timerId);
+            waiter.fail(reason);
+        }
+    }
+
+    private validate(permits: number): void {
+        if (permits <= 0 || !Number.isInteger(permits)) {
+            throw new Error("Semaphore permits must be a positive integer");
+        }
+        if (permits > this.limit) {
+            throw this.oversize(permits);
+        }
+    }
+
+    private oversize(permits: number): Error {
+        return new Error(`Cannot acquire ${permits} permits from a semaphore with capacity ${this.limit}`);
+    }
+
+    /**
+     * A snapshot of the current holders and waiters, for debugging.
+     * Holders are only tracked in debug mode, and waiters only have stacks in debug mode.
+     */
+    public dump(): LockDump {
+        const now = Date.now();
+        return {
+            holders: this.tracker?.dump() ?? [],
+            waiters: this.queue.toArray().map(({ permits, priority, since, stack }) => ({
+                permits,
+                priority,
+                waitedMs: now - since,
+                stack,
+            })),
+        };
     }
 
-    private release(): Release {
+    /**
+     * A snapshot of the counters, and recent wait and hold times, for exporting to a metrics system.
+     */
+    public stats(): SemaphoreStats {
+        return {
+            acquired: this.acquired,
+            enqueued: this.enqueued,
+            timedOut: this.timedOut,
+            rejected: this.shed,
+            used: this.count,
+            waiting: this.queue.length,
+            waitMs: this.waitTimes.percentiles(),
+            heldMs: this.heldTimes.percentiles(),
+        };
+    }
+
+    /**
+     * Records permits that were just granted, and creates the function that releases them.
+     */
+    private release(
+        permits: number,
+        since: number = Date.now(),
+        stack: string | undefined = this.tracker?.capture()
+    ): Release {
+        const acquiredAt = Date.now();
+        this.acquired++;
+        this.waitTimes.record(acquiredAt - since);
+        this.emit({ type: "acquire", timestamp: acquiredAt, permits, waitMs: acquiredAt - since });
+
         let released = false;
-        return () => {
+        const release = () => {
             if (released || this.count <= 0) {
                 return false;
             }
 
             released = true;
-            this.count--;
-
-            if (this.queue.length > 0 && this.count < this.capacity) {
-                const next = this.queue.shift();
-                if (next) next();
-            }
+            this.count -= permits;
+            const timestamp = Date.now();
+            this.heldTimes.record(timestamp - acquiredAt);
+            // reported before the next waiter is granted, so events never show more holders than permits
+            this.emit({ type: "release", timestamp, permits, heldMs: timestamp - acquiredAt });
+            this.dispatch();
 
             return true;
         };
+        return this.tracker ? this.tracker.track(release, permits, stack) : release;
     }
 
-    public async use<T>(fn: () => Promise<T> | T): Promise<T> {
-        const release = await this.acquire();
+    /**
+     * Calls the event hook once the state has changed. A hook that throws is ignored,
+     * so that it cannot leave the semaphore with permits that are never granted or released.
+     */
+    private emit(event: LockEvent): void {
+        try {
+            this.onEvent?.(event);
+        } catch {
+            // a broken hook must not break the semaphore
+        }
+    }
+
+    /**
+     * Grants permits to waiters in order, for as long as the next waiter fits.
+     */
+    private dispatch(): void {
+        while (!this.paused) {
+            const waiter = this.queue.peek();
+            if (!waiter || this.count + waiter.permits > this.limit) {
+                break;
+            }
+            this.queue.remove(waiter);
+            waiter.grant();
+        }
+    }
+
+    public async use<T>(fn: () => Promise<T> | T, options?: AcquireOptions): Promise<T>;
+    public async use<T>(fn: () => Promise<T> | T, permits: number, options?: AcquireOptions): Promise<T>;
+    public async use<T>(
+        fn: () => Promise<T> | T,
+        permits: number | AcquireOptions = 1,
+        options?: AcquireOptions
+    ): Promise<T> {
+        const release =
+            typeof permits === "number" ? await this.acquire(permits, options) : await this.acquire(permits);
         try {
             return await fn();
         } finally {
@@ -90,3 +432,129 @@ export class Semaphore {
         }
     }
 }
+
+/**
+ * The waiters of a semaphore with the same priority, in arrival order.
+ * Served waiters are skipped with `start` rather than shifted off, which copies large arrays,
+ * and are only dropped once they make up half of the array.
+ */
+interface Bucket {
+    waiters: Waiter[];
+    start: number;
+}
+
+/**
+ * The waiters of a semaphore, kept in one FIFO bucket per priority.
+ * Finding the next waiter only looks at the head of each bucket, rather than scanning every waiter,
+ * as the head of a bucket has waited longest, and so has the highest priority after aging.
+ */
+class WaitQueue {
+    private buckets = new Map<number, Bucket>();
+    /** The priorities that have waiters, highest first */
+    private priorities: number[] = [];
+    private size: number = 0;
+
+    public constructor(private readonly agingMs?: number) {}
+
+    public get length(): number {
+        return this.size;
+    }
+
+    public push(waiter: Waiter): void {
+        let bucket = this.buckets.get(waiter.priority);
+        if (!bucket) {
+            bucket = { waiters: [], start: 0 };
+            this.buckets.set(waiter.priority, bucket);
+            const index = this.priorities.findIndex(priority => priority < waiter.priority);
+            this.priorities.splice(index < 0 ? this.priorities.length : index, 0, waiter.priority);
+        }
+        bucket.waiters.push(waiter);
+        this.size++;
+    }
+
+    /**
+     * The waiter to serve next, which has the highest priority after aging, with ties going to the earliest.
+     */
+    public peek(): Waiter | undefined {
+        if (!this.agingMs) {
+            return this.priorities.length > 0 ? this.head(this.priorities[0]) : undefined;
+        }
+        const now = Date.now();
+        let best: Waiter | undefined;
+        let bestPriority = -Infinity;
+        for (const priority of this.priorities) {
+            const waiter = this.head(priority);
+            const effective = priority + Math.floor((now - waiter.since) / this.agingMs);
+            if (!best || effective > bestPriority || (effective === bestPriority && waiter.seq < best.seq)) {
+                best = waiter;
+                bestPriority = effective;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * The waiter that arrived first, regardless of priority.
+     */
+    public oldest(): Waiter | undefined {
+        let oldest: Waiter | undefined;
+        for (const priority of this.priorities) {
+            const waiter = this.head(priority);
+            if (!oldest || waiter.seq < oldest.seq) {
+                oldest = waiter;
+            }
+        }
+        return oldest;
+    }
+
+    /**
+     * Removes a waiter, returning whether it was still waiting.
+     */
+    public remove(waiter: Waiter): boolean {
+        const bucket = this.buckets.get(waiter.priority);
+        if (!bucket) return false;
+        const { waiters } = bucket;
+        if (waiters[bucket.start] === waiter) {
+            bucket.start++;
+            if (bucket.start >= 1024 && bucket.start * 2 >= waiters.length) {
+                waiters.splice(0, bucket.start);
+                bucket.start = 0;
+            }
+        } else {
+            const index = waiters.indexOf(waiter, bucket.start);
+            if (index < 0) return false;
+            waiters.splice(index, 1);
+        }
+        if (bucket.start === waiters.length) {
+            this.buckets.delete(waiter.priority);
+            this.priorities.splice(this.priorities.indexOf(waiter.priority), 1);
+        }
+        this.size--;
+        return true;
+    }
+
+    /**
+     * All waiters, in the order they arrived.
+     */
+    public toArray(): Waiter[] {
+        return [...this.buckets.values()]
+            .flatMap(bucket => bucket.waiters.slice(bucket.start))
+            .sort((a, b) => a.seq - b.seq);
+    }
+
+    /**
+     * Removes all waiters, returning them in the order they arrived.
+     */
+    public clear(): Waiter[] {
+        const waiters = this.toArray();
+        this.buckets.clear();
+        this.priorities = [];
+        this.size = 0;
+        return waiters;
+    }
+
+    private head(priority: number): Waiter {
+        const bucket = this.buckets.get(priority) as Bucket;
+        return bucket.waiters[bucket.start];
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * Holds the function given to `abortable()`, which takes the signal before its arguments.
+ */
+export const ABORTABLE = Symbol("abortable");
+
+type SignalFirst<A extends any[], R> = (signal: AbortSignal, ...args: A) => Promise<R>;
+
+/**
+ * Whether the function was made with `abortable()`, and so accepts a signal.
+ */
+export function isAbortable<A extends any[], R>(
+    fn: (...args: A) => Promise<R>
+): fn is ((...args: A) => Promise<R>) & { [ABORTABLE]: SignalFirst<A, R> } {
+    return ABORTABLE in fn;
+}
+
+/**
+ * Calls the function with its arguments, passing it the signal only if it is abortable.
+ */
+export function invoke<A extends any[], R>(fn: (...args: A) => Promise<R>, signal: AbortSignal, args: A): Promise<R> {
+    return isAbortable(fn) ? fn[ABORTABLE](signal, ...args) : fn(...args);
+}
+
+/**
+ * Splits the caller's signal from the arguments, if the last argument is an `AbortSignal`.
+ */
+export function splitSignal<A extends any[]>(args: any[]): [A, AbortSignal | undefined] {
+    const signal = signalOf(args);
+    // once the signal is removed, only the arguments of A remain
+    return signal ? [args.slice(0, -1) as A, signal] : [args as A, undefined];
+}
+
+/**
+ * Returns the caller's signal, if the last argument is an `AbortSignal`.
+ */
+export function signalOf(args: any[]): AbortSignal | undefined {
+    const last = args[args.length - 1];
+    return last instanceof AbortSignal ? last : undefined;
+}
+
+/**
+ * Aborts the controller when any of the signals abort.
+ * @returns A function that detaches the listeners from the signals
+ */
+export function linkSignals(controller: AbortController, ...signals: Array<AbortSignal | undefined>): () => void {
+    const sources = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+    const onAbort = (event: Event) => controller.abort((event.target as AbortSignal).reason);
+    const unlink = () => sources.forEach(signal => signal.removeEventListener("abort", onAbort));
+    for (const signal of sources) {
+        if (signal.aborted) {
+            controller.abort(signal.reason);
+            return unlink;
+        }
+        signal.addEventListener("abort", onAbort, { once: true });
+    }
+    return unlink;
+}
@@ -1,28 +1,310 @@
-import { Semaphore } from "~/semaphore";
+import { Deferred, deferred } from "~/async";
+import { AggregateTaskError, PoolClosedError, TaskFailure } from "~/error";
+import { LockEvent, Percentiles, Recorder, TaskEvent } from "~/metrics";
+import { RateLimiter } from "~/rate-limiter";
+import { AcquireOptions, Release, Semaphore, SemaphoreOptions } from "~/semaphore";
+
+export interface TaskPoolOptions extends SemaphoreOptions {
+    /**
+     * Limits how many tasks start over time, in addition to how many run at once.
+     * A task takes its slot in the pool first, then waits for its turn in the rate limiter.
+     */
+    rateLimiter?: RateLimiter;
+    /** Called when each task starts, succeeds or fails, as well as with the lock events of its slot */
+    onEvent?: (event: LockEvent | TaskEvent) => void;
+}
+
+export interface TaskPoolStats {
+    started: number;
+    succeeded: number;
+    failed: number;
+    /** The number of tasks that found the pool full, and had to wait for a slot */
+    saturated: number;
+    /** The number of tasks that gave up waiting for a slot after their timeout elapsed */
+    timedOut: number;
+    rejected: number;
+    running: number;
+    queued: number;
+    /** How long recent tasks waited to start, including waiting for the rate limiter */
+    waitMs: Percentiles;
+    /** How long recent tasks ran for */
+    runMs: Percentiles;
+}
+
+export interface SubmitAllOptions extends AcquireOptions {
+    /**
+     * Whether to reject with the first error, defaults to true.
+     * When false, every task is waited for, and the failures are thrown together as an AggregateTaskError.
+     */
+    stopOnError?: boolean;
+}
+
+export interface ShutdownOptions {
+    /** Rejects queued tasks with a PoolClosedError instead of running them */
+    cancelPending?: boolean;
+}
 
 /**
  * A simple task pool that limits the number of concurrent tasks.
  */
 export class TaskPool<T> {
     private semaphore: Semaphore;
+    private rateLimiter?: RateLimiter;
+    private closed: boolean = false;
+    private emptyWaiters: Deferred<void>[] = [];
+    private idleWaiters: Deferred<void>[] = [];
+    private readonly onEvent?: (event: LockEvent | TaskEvent) => void;
+    private started: number = 0;
+    private succeeded: number = 0;
+    private failed: number = 0;
+    private waitTimes = new Recorder();
+    private runTimes = new Recorder();
 
-    constructor(concurrency: number) {
-        this.semaphore = new Semaphore(concurrency);
+    constructor(concurrency: number, options: TaskPoolOptions = {}) {
+        this.semaphore = new Semaphore(concurrency, options);
+        this.rateLimiter = options.rateLimiter;
+        this.onEvent = options.onEvent;
     }
 
     public get concurrency(): number {
         return this.semaphore.capacity;
     }
 
+    /**
+     * Changes the number of tasks that may run at once.
+     * Growing starts queued tasks straight away, while shrinking lets running tasks finish.
+     */
+    public setConcurrency(concurrency: number): void {
+        this.semaphore.resize(concurrency);
+    }
+
     public get tasks(): number {
         return this.semaphore.used;
     }
 
-    public async submit(task: () => Promise<T>): Promise<T> {
-        return this.semaphore.use(task);
+    /**
+     * The number of tasks waiting for a free slot.
+     */
+    public get queued(): number {
+        return this.semaphore.waiting;
+    }
+
+    /**
+     * The number of tasks rejected because the queue was full, or they waited too long.
+     */
+    public get rejected(): number {
+        return this.semaphore.rejected;
+    }
+
+    /**
+     * The number of tasks currently running.
+     */
+    public get running(): number {
+        return this.semaphore.used;
+    }
+
+    /**
+     * Whether the pool has stopped starting tasks.
+     */
+    public get isPaused(): boolean {
+        return this.semaphore.isPaused;
+    }
+
+    /**
+     * Stops starting tasks, without rejecting them.
+     * Running tasks finish normally, while queued and newly submitted tasks wait.
+     */
+    public pause(): void {
+        this.semaphore.pause();
+    }
+
+    /**
+     * Starts the waiting tasks again, in the order they would have started.
+     */
+    public resume(): void {
+        this.semaphore.resume();
+    }
+
+    /**
+     * Whether the pool has stopped accepting new tasks.
+     */
+    public get isClosed(): boolean {
+        return this.closed;
+    }
+
+    /**
+     * Resolves once no tasks are queued, although some may still be running.
+     */
+    public async onEmpty(): Promise<void> {
+        return this.wait(this.emptyWaiters, this.queued === 0);
+    }
+
+    /**
+     * Resolves once no tasks are queued or running.
+     */
+    public async onIdle(): Promise<void> {
+        return this.wait(this.idleWaiters, this.queued === 0 && this.running === 0);
+    }
+
+    /**
+     * Stops accepting new tasks, which are rejected with a PoolClosedError.
+     * Tasks that were already submitted still run.
+     */
+    public close(): void {
+        this.closed = true;
+    }
+
+    /**
+     * Closes the pool, and waits for the remaining tasks to finish.
+     * A paused pool is resumed, so its queued tasks can run rather than waiting forever.
+     * @param options Optionally reject queued tasks, so only running tasks are waited for
+     */
+    public async shutdown(options: ShutdownOptions = {}): Promise<void> {
+        this.close();
+        if (options.cancelPending) {
+            this.semaphore.rejectWaiting(new PoolClosedError());
+        }
+        this.resume();
+        return this.onIdle();
+    }
+
+    /**
+     * Submits a task, which runs once a slot is free.
+     * @param options Optional priority, and signal and timeout to stop waiting for a slot
+     */
+    public async submit(task: () => Promise<T>, options?: AcquireOptions): Promise<T> {
+        if (this.closed) {
+            throw new PoolClosedError();
+        }
+
+        const submittedAt = Date.now();
+        let release: Release;
+        try {
+            release = await this.semaphore.acquire(options);
+        } finally {
+            // the task has left the queue, whether it starts running or not
+            this.settle();
+        }
+
+        try {
+            await this.rateLimiter?.acquire(1, options);
+            return await this.run(task, submittedAt);
+        } finally {
+            release();
+            this.settle();
+        }
+    }
+
+    /**
+     * Submits all tasks, resolving to their results in order.
+     * @param options Optionally wait for every task before rejecting, with all the failures
+     */
+    public async submitAll(tasks: Array<() => Promise<T>>, options: SubmitAllOptions = {}): Promise<T[]> {
+        const { stopOnError = true, ...acquire } = options;
+        if (stopOnError) {
+            return Promise.all(tasks.map(task => this.submit(task, acquire)));
+        }
+
+        const results = await this.submitAllSettled(tasks, acquire);
+        const failures: TaskFailure[] = [];
+        results.forEach((result, index) => {
+            if (result.status === "rejected") {
+                failures.push({ index, reason: result.reason });
+            }
+        });
+        if (failures.length > 0) {
+            throw new AggregateTaskError(`${failures.length} of ${tasks.length} tasks failed`, failures, results);
+        }
+        return results.map(result => (result as PromiseFulfilledResult<T>).value);
+    }
+
+    /**
+     * Submits all tasks, resolving once every task has settled, to whether each succeeded or failed, in order.
+     */
+    public async submitAllSettled(
+        tasks: Array<() => Promise<T>>,
+        options?: AcquireOptions
+    ): Promise<PromiseSettledResult<T>[]> {
+        return Promise.allSettled(tasks.map(task => this.submit(task, options)));
+    }
+
+    /**
+     * A snapshot of the counters, and recent wait and run times, for exporting to a metrics system.
+     */
+    public stats(): TaskPoolStats {
+        const { enqueued, timedOut, rejected } = this.semaphore.stats();
+        return {
+            started: this.started,
+            succeeded: this.succeeded,
+            failed: this.failed,
+            saturated: enqueued,
+            timedOut,
+            rejected,
+            running: this.running,
+            queued: this.queued,
+            waitMs: this.waitTimes.percentiles(),
+            runMs: this.runTimes.percentiles(),
+        };
+    }
+
+    /**
+     * Runs a task that has its slot, recording how long it waited and ran for.
+     */
+    private async run(task: () => Promise<T>, submittedAt: number): Promise<T> {
+        const startedAt = Date.now();
+        const waitMs = startedAt - submittedAt;
+        this.started++;
+        this.waitTimes.record(waitMs);
+        this.emit({ type: "task-start", timestamp: startedAt, waitMs });
+
+        let result: T;
+        try {
+            result = await task();
+        } catch (error) {
+            const timestamp = Date.now();
+            this.failed++;
+            this.runTimes.record(timestamp - startedAt);
+            this.emit({ type: "task-failure", timestamp, waitMs, runMs: timestamp - startedAt, error });
+            throw error;
+        }
+
+        const timestamp = Date.now();
+        this.succeeded++;
+        this.runTimes.record(timestamp - startedAt);
+        this.emit({ type: "task-success", timestamp, waitMs, runMs: timestamp - startedAt });
+        return result;
+    }
+
+    /**
+     * Calls the event hook, ignoring a hook that throws, so it cannot change the outcome of a task.
+     */
+    private emit(event: TaskEvent): void {
+        try {
+            this.onEvent?.(event);
+        } catch {
+            // a broken hook must not break the pool
+        }
+    }
+
+    private wait(waiters: Deferred<void>[], ready: boolean): Promise<void> {
+        if (ready) {
+            return Promise.resolve();
+        }
+        const waiter = deferred<void>();
+        waiters.push(waiter);
+        return waiter.promise;
     }
 
-    public async submitAll(tasks: Array<() => Promise<T>>): Promise<T[]> {
-        return Promise.all(tasks.map(task => this.submit(task)));
+    /**
+     * Resolves the empty and idle waiters, if the pool has become empty or idle.
+     */
+    private settle(): void {
+        if (this.queued > 0) {
+            return;
+        }
+        this.emptyWaiters.splice(0).forEach(waiter => waiter.resolve());
+        if (this.running === 0) {
+            this.idleWaiters.splice(0).forEach(waiter => waiter.resolve());
+        }
     }
 }
@@ -0,0 +1,70 @@
+import { deferred, Reject } from "~/async";
+import { TimeoutError } from "~/error";
+
+export interface WaitOptions {
+    /** Stops waiting when aborted, rejecting with the signal's reason */
+    signal?: AbortSignal;
+    /** Stops waiting after this many ms, rejecting with a TimeoutError */
+    timeoutMs?: number;
+}
+
+/**
+ * Called to settle a waiter with the value it was waiting for.
+ */
+export type Grant<T> = (value: T) => void;
+
+/**
+ * Adds a waiter to the end of a queue, returning a function that takes it back out,
+ * which returns false if the waiter has already left the queue.
+ */
+export function enqueue<W>(queue: W[], waiter: W): () => boolean {
+    queue.push(waiter);
+    return () => {
+        const index = queue.indexOf(waiter);
+        if (index < 0) return false;
+        queue.splice(index, 1);
+        return true;
+    };
+}
+
+/**
+ * Waits to be granted a value, giving up when the signal aborts or the timeout elapses.
+ *
+ * `enter` puts the waiter in a queue, and returns a function that takes it back out.
+ * That function returns false if the waiter has already left the queue, in which case
+ * it is too late to give up. The queue may also turn the waiter away with `fail`.
+ */
+export function waitFor<T>(options: WaitOptions, enter: (grant: Grant<T>, fail: Reject) => () => boolean): Promise<T> {
+    const { signal, timeoutMs } = options;
+    if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+    }
+
+    const { promise, resolve, reject } = deferred<T>();
+    const cancel = (reason: any) => {
+        if (leave()) {
+            cleanup();
+            reject(reason);
+        }
+    };
+    const onAbort = () => cancel(signal?.reason);
+    const timerId = timeoutMs === undefined ? undefined : setTimeout(() => cancel(new TimeoutError()), timeoutMs);
+    const cleanup = () => {
+        clearTimeout(timerId);
+        signal?.removeEventListener("abort", onAbort);
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const leave = enter(
+        value => {
+            cleanup();
+            resolve(value);
+        },
+        reason => {
+            cleanup();
+            reject(reason);
+        }
+    );
+
+    return promise;
+}
@@ -0,0 +1,251 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { sleep } from "~/async";
+import { AsyncQueue } from "~/async-queue";
+import { TimeoutError } from "~/error";
+
+describe("AsyncQueue", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should dequeue items in order", async () => {
+        const queue = new AsyncQueue<string>();
+        queue.enqueue("a");
+        queue.enqueue("b");
+
+        expect(queue.size).toBe(2);
+        expect(await queue.dequeue()).toBe("a");
+        expect(await queue.dequeue()).toBe("b");
+        expect(queue.inFlight).toBe(0);
+    });
+
+    test("should make consumers wait until an item is ready", async () => {
+        const queue = new AsyncQueue<string>();
+
+        const first = queue.dequeue();
+        const second = queue.dequeue();
+        expect(queue.waiting).toBe(2);
+
+        queue.enqueue("a");
+        queue.enqueue("b");
+
+        expect(await first).toBe("a");
+        expect(await second).toBe("b");
+    });
+
+    test("should stop waiting when the timeout elapses", async () => {
+        const queue = new AsyncQueue<string>();
+
+        const promise = queue.dequeue({ timeoutMs: 100 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+
+        queue.enqueue("a");
+        expect(queue.size).toBe(1);
+    });
+
+    test("should redeliver an item that was not acknowledged", async () => {
+        const queue = new AsyncQueue<string>();
+        queue.enqueue("a");
+
+        const first = await queue.receive();
+        expect(first.deliveries).toBe(1);
+        expect(queue.inFlight).toBe(1);
+        expect(first.nack(new Error("fail"))).toBe(true);
+        expect(first.ack()).toBe(false);
+
+        const second = await queue.receive();
+        expect(second.value).toBe("a");
+        expect(second.deliveries).toBe(2);
+        expect(second.ack()).toBe(true);
+        expect(queue.size).toBe(0);
+        expect(queue.inFlight).toBe(0);
+    });
+
+    test("should dead-letter an item once it runs out of attempts", async () => {
+        const onDeadLetter = vi.fn();
+        const queue = new AsyncQueue<string>({ maxAttempts: 2, onDeadLetter });
+        const error = new Error("fail");
+        queue.enqueue("a");
+
+        (await queue.receive()).nack(error);
+        (await queue.receive()).nack(error);
+
+        expect(onDeadLetter).toHaveBeenCalledWith("a", error, 2);
+        expect(queue.size).toBe(0);
+    });
+
+    test("should wait before redelivering", async () => {
+        const queue = new AsyncQueue<string>({ retryDelayMs: 1000 });
+        queue.enqueue("a");
+
+        (await queue.receive()).nack();
+        expect(queue.size).toBe(0);
+        expect(queue.scheduled).toBe(1);
+
+        const next = queue.dequeue();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(await next).toBe("a");
+    });
+
+    test("should make delayed and scheduled items available later, in time order", async () => {
+        const queue = new AsyncQueue<string>();
+        queue.enqueue("later", { delayMs: 200 });
+        queue.enqueue("sooner", { at: Date.now() + 100 });
+        queue.enqueue("now");
+
+        expect(await queue.dequeue()).toBe("now");
+        const next = queue.dequeue();
+        const after = queue.dequeue();
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(await next).toBe("sooner");
+        expect(queue.scheduled).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(await after).toBe("later");
+    });
+
+    test("should process items with several workers", async () => {
+        const queue = new AsyncQueue<number>();
+        const controller = new AbortController();
+        const handled: number[] = [];
+        let running = 0;
+        let peak = 0;
+
+        for (let i = 0; i < 6; i++) queue.enqueue(i);
+        const processing = queue.process(
+            async n => {
+                peak = Math.max(peak, ++running);
+                await sleep(100);
+                handled.push(n);
+                running--;
+            },
+            { concurrency: 2, signal: controller.signal }
+        );
+
+        await vi.advanceTimersByTimeAsync(300);
+        expect(handled).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(peak).toBe(2);
+
+        controller.abort();
+        await processing;
+        expect(queue.inFlight).toBe(0);
+    });
+
+    test("should redeliver items whose handler throws when processing", async () => {
+        const onDeadLetter = vi.fn();
+        const queue = new AsyncQueue<string>({ maxAttempts: 3, onDeadLetter });
+        const controller = new AbortController();
+        const handler = vi.fn(async (value: string) => {
+            if (value === "bad") throw new Error("fail");
+        });
+
+        queue.enqueue("bad");
+        queue.enqueue("good");
+        const processing = queue.process(handler, { signal: controller.signal });
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(handler.mock.calls.map(([value]) => value)).toEqual(["bad", "good", "bad", "bad"]);
+        expect(onDeadLetter).toHaveBeenCalledWith("bad", expect.any(Error), 3);
+
+        controller.abort();
+        await processing;
+    });
+
+    test("should leave items for other consumers while workers are busy", async () => {
+        const queue = new AsyncQueue<number>();
+        const controller = new AbortController();
+        queue.enqueue(1);
+        queue.enqueue(2);
+
+        const processing = queue.process(() => sleep(1000), { concurrency: 1, signal: controller.signal });
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(await queue.dequeue()).toBe(2);
+
+        controller.abort();
+        await vi.advanceTimersByTimeAsync(1000);
+        await processing;
+    });
+
+    test("should only take as many items as it has slots, and pick up items enqueued later", async () => {
+        const queue = new AsyncQueue<number>();
+        const controller = new AbortController();
+        const handled: number[] = [];
+
+        for (let i = 0; i < 5; i++) queue.enqueue(i);
+        const processing = queue.process(
+            async n => {
+                await sleep(100);
+                handled.push(n);
+            },
+            { concurrency: 2, signal: controller.signal }
+        );
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(queue.inFlight).toBe(2);
+        expect(queue.size).toBe(3);
+
+        await vi.advanceTimersByTimeAsync(300);
+        expect(handled).toEqual([0, 1, 2, 3, 4]);
+        expect(queue.inFlight).toBe(0);
+
+        queue.enqueue(5);
+        await vi.advanceTimersByTimeAsync(100);
+        expect(handled).toEqual([0, 1, 2, 3, 4, 5]);
+
+        controller.abort();
+        await processing;
+    });
+
+    test("should keep processing when the dead-letter callback throws", async () => {
+        const onDeadLetter = vi.fn(() => {
+            throw new Error("dlq hook");
+        });
+        const queue = new AsyncQueue<string>({ maxAttempts: 1, onDeadLetter });
+        const controller = new AbortController();
+        const handler = vi.fn(async (value: string) => {
+            if (value === "bad") throw new Error("fail");
+        });
+
+        queue.enqueue("bad");
+        queue.enqueue("good");
+        const processing = queue.process(handler, { signal: controller.signal });
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(handler.mock.calls.map(([value]) => value)).toEqual(["bad", "good"]);
+        expect(onDeadLetter).toHaveBeenCalledTimes(1);
+        expect(queue.inFlight).toBe(0);
+
+        queue.enqueue("bad");
+        await vi.advanceTimersByTimeAsync(0);
+        expect(onDeadLetter).toHaveBeenCalledTimes(2);
+
+        controller.abort();
+        await expect(processing).resolves.toBeUndefined();
+    });
+
+    test("should not throw from nack when the dead-letter callback throws", async () => {
+        const queue = new AsyncQueue<string>({
+            maxAttempts: 1,
+            onDeadLetter: () => {
+                throw new Error("dlq hook");
+            },
+        });
+        queue.enqueue("a");
+
+        const delivery = await queue.receive();
+        expect(delivery.nack(new Error("fail"))).toBe(true);
+        expect(queue.inFlight).toBe(0);
+    });
+
+    test("should reject an invalid maxAttempts", () => {
+        expect(() => new AsyncQueue({ maxAttempts: 0 })).toThrow("AsyncQueue maxAttempts must be a positive integer");
+    });
+});
@@ -5,9 +5,16 @@ import {
     nextTick,
     fromAsyncIterator,
     lift,
+    debounce,
+    throttle,
+    CancelledError,
+    abortable,
     withTimeout,
+    withHedging,
     withRetry,
     expBackoff,
+    fullJitter,
+    decorrelatedJitter,
     deferred,
     TimeoutError,
     RetryError,
@@ -37,6 +44,23 @@ describe("async utilities", () => {
             const result = await promise;
             expect(result).toBe("test-value");
         });
+
+        test("should reject with the signal's reason and clear the timer when aborted", async () => {
+            const controller = new AbortController();
+            const reason = new Error("aborted");
+            const promise = sleep({ ms: 1000, signal: controller.signal });
+
+            controller.abort(reason);
+
+            await expect(promise).rejects.toBe(reason);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("should reject immediately if the signal is already aborted", async () => {
+            const reason = new Error("aborted");
+            await expect(sleep({ ms: 1000, signal: AbortSignal.abort(reason) })).rejects.toBe(reason);
+            expect(vi.getTimerCount()).toBe(0);
+        });
     });
 
     describe("delay", () => {
@@ -62,6 +86,18 @@ describe("async utilities", () => {
 
             expect(fn).toHaveBeenCalledWith("arg1", "arg2");
         });
+
+        test("should not call the function when aborted", async () => {
+            const controller = new AbortController();
+            const fn = vi.fn();
+            const promise = delay({ ms: 1000, signal: controller.signal }, fn);
+
+            controller.abort();
+            vi.advanceTimersByTime(1000);
+
+            await expect(promise).rejects.toHaveProperty("name", "AbortError");
+            expect(fn).not.toHaveBeenCalled();
+        });
     });
 
     describe("nextTick", () => {
@@ -89,6 +125,144 @@ describe("async utilities", () => {
         });
     });
 
+    describe("debounce", () => {
+        test("should resolve every caller in a burst with the result of a single trailing call", async () => {
+            const fn = vi.fn((query: string) => `results for ${query}`);
+            const search = debounce(fn, 100);
+
+            const first = search("h");
+            await vi.advanceTimersByTimeAsync(50);
+            const second = search("he");
+            await vi.advanceTimersByTimeAsync(99);
+            expect(fn).not.toHaveBeenCalled();
+
+            await vi.advanceTimersByTimeAsync(1);
+            expect(await first).toBe("results for he");
+            expect(await second).toBe("results for he");
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        test("should call straight away on the leading edge, and again on the trailing edge", async () => {
+            const fn = vi.fn(async (n: number) => n * 2);
+            const debounced = debounce(fn, 100, { leading: true });
+
+            const first = debounced(1);
+            const second = debounced(2);
+            const third = debounced(3);
+
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(await first).toBe(2);
+            await vi.advanceTimersByTimeAsync(100);
+            expect(await second).toBe(6);
+            expect(await third).toBe(6);
+            expect(fn).toHaveBeenCalledTimes(2);
+        });
+
+        test("should share the leading result when there is no trailing edge", async () => {
+            const fn = vi.fn(async (n: number) => n);
+            const debounced = debounce(fn, 100, { leading: true, trailing: false });
+
+            const first = debounced(1);
+            const second = debounced(2);
+            await vi.advanceTimersByTimeAsync(100);
+
+            expect(await second).toBe(1);
+            expect(second).toBe(first);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(await debounced(3)).toBe(3);
+        });
+
+        test("should not hold back calls longer than maxWait", async () => {
+            const fn = vi.fn((n: number) => n);
+            const debounced = debounce(fn, 100, { maxWait: 250 });
+
+            const results: Array<Promise<number>> = [];
+            for (let i = 0; i < 5; i++) {
+                results.push(debounced(i));
+                await vi.advanceTimersByTimeAsync(60);
+            }
+
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(fn).toHaveBeenCalledWith(4);
+            expect(await Promise.all(results)).toEqual([4, 4, 4, 4, 4]);
+        });
+
+        test("should make the pending call straight away when flushed", async () => {
+            const fn = vi.fn((n: number) => n);
+            const debounced = debounce(fn, 1000);
+
+            const promise = debounced(1);
+            debounced.flush();
+
+            expect(fn).toHaveBeenCalledWith(1);
+            expect(await promise).toBe(1);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("should reject pending callers with a CancelledError when cancelled", async () => {
+            const fn = vi.fn();
+            const debounced = debounce(fn, 100);
+
+            const promise = debounced();
+            debounced.cancel();
+
+            await expect(promise).rejects.toThrow(CancelledError);
+            await vi.advanceTimersByTimeAsync(100);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        test("should reject every caller when the call fails", async () => {
+            const debounced = debounce(async () => {
+                throw new Error("fail");
+            }, 100);
+
+            const first = debounced();
+            const second = debounced();
+            const assertions = Promise.all([
+                expect(first).rejects.toThrow("fail"),
+                expect(second).rejects.toThrow("fail"),
+            ]);
+            await vi.advanceTimersByTimeAsync(100);
+            await assertions;
+        });
+
+        test("should require a leading or trailing edge", () => {
+            expect(() => debounce(() => 1, 100, { trailing: false })).toThrow(
+                "Debounce needs a leading or trailing edge"
+            );
+        });
+    });
+
+    describe("throttle", () => {
+        test("should call at most once per interval", async () => {
+            const fn = vi.fn((n: number) => n);
+            const throttled = throttle(fn, 100);
+
+            const first = throttled(1);
+            const second = throttled(2);
+            const third = throttled(3);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(await first).toBe(1);
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(await second).toBe(3);
+            expect(await third).toBe(3);
+        });
+
+        test("should keep calling once per interval while called continuously", async () => {
+            const fn = vi.fn((n: number) => n);
+            const throttled = throttle(fn, 100, { trailing: false });
+
+            for (let i = 0; i < 10; i++) {
+                throttled(i);
+                await vi.advanceTimersByTimeAsync(30);
+            }
+
+            expect(fn.mock.calls).toEqual([[0], [4], [8]]);
+        });
+    });
+
     describe("fromAsyncIterator", () => {
         test("should collect all values from an async iterator", async () => {
             async function* generator() {
@@ -175,6 +349,154 @@ describe("async utilities", () => {
             await expect(promise).rejects.toThrow("Custom error");
             await expect(promise).rejects.toBe(customError);
         });
+
+        test("should abort the signal passed to an abortable function on timeout", async () => {
+            let received: AbortSignal | undefined;
+            const fn = abortable(async signal => {
+                received = signal;
+                await sleep(1500);
+                return "result";
+            });
+
+            const promise = withTimeout(fn, 1000)();
+            vi.advanceTimersByTime(1000);
+
+            await expect(promise).rejects.toThrow(TimeoutError);
+            expect(received?.aborted).toBe(true);
+            expect(received?.reason).toBeInstanceOf(TimeoutError);
+        });
+
+        test("should replace the caller's signal with a combined signal", async () => {
+            const controller = new AbortController();
+            const reason = new Error("cancelled");
+            let received: AbortSignal | undefined;
+            const fn = abortable(async (signal, id: number) => {
+                received = signal;
+                await sleep(500);
+                return id;
+            });
+
+            const promise = withTimeout(fn, 1000)(1, controller.signal);
+            controller.abort(reason);
+
+            await expect(promise).rejects.toBe(reason);
+            expect(received).not.toBe(controller.signal);
+            expect(received?.reason).toBe(reason);
+            vi.advanceTimersByTime(500);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("should pass the arguments of a function that is not abortable as is", async () => {
+            const fn = vi.fn(async (x: number, y = 10) => String(x + y));
+
+            expect(await withTimeout(fn, 100)(1)).toBe("11");
+            expect(fn).toHaveBeenCalledWith(1);
+        });
+    });
+
+    describe("withHedging", () => {
+        test("should not hedge when the first attempt answers within the delay", async () => {
+            const fn = vi.fn(() => sleep(50, "first"));
+            const onWin = vi.fn();
+
+            const promise = withHedging(fn, { delayMs: 100, onWin })();
+            await vi.advanceTimersByTimeAsync(50);
+
+            expect(await promise).toBe("first");
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(onWin).toHaveBeenCalledWith(0, 50);
+        });
+
+        test("should resolve with the result when onWin throws", async () => {
+            const onWin = vi.fn(() => {
+                throw new Error("hook");
+            });
+
+            const promise = withHedging(() => sleep(50, "first"), { delayMs: 100, onWin })();
+            await vi.advanceTimersByTimeAsync(50);
+
+            expect(await promise).toBe("first");
+            expect(onWin).toHaveBeenCalledTimes(1);
+        });
+
+        test("should start another attempt after the delay, and take whichever finishes first", async () => {
+            const signals: AbortSignal[] = [];
+            const durations = [500, 100];
+            const fn = vi.fn((signal: AbortSignal, id: number) => {
+                signals.push(signal);
+                return sleep(durations[signals.length - 1], `${id}:${signals.length}`);
+            });
+            const onWin = vi.fn();
+
+            const promise = withHedging(abortable(fn), { delayMs: 200, onWin })(7);
+            await vi.advanceTimersByTimeAsync(300);
+
+            expect(await promise).toBe("7:2");
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(onWin).toHaveBeenCalledWith(1, 300);
+            expect(signals[0].aborted).toBe(true);
+            expect(signals[1].aborted).toBe(false);
+        });
+
+        test("should not start more than maxAttempts", async () => {
+            const fn = vi.fn(() => sleep(1000, "slow"));
+
+            const promise = withHedging(fn, { delayMs: 100, maxAttempts: 3 })();
+            await vi.advanceTimersByTimeAsync(500);
+            expect(fn).toHaveBeenCalledTimes(3);
+
+            await vi.advanceTimersByTimeAsync(500);
+            expect(await promise).toBe("slow");
+        });
+
+        test("should start the next attempt straight away when one fails", async () => {
+            const fn = vi.fn().mockRejectedValueOnce(new Error("fail")).mockResolvedValue("ok");
+
+            const promise = withHedging(fn, { delayMs: 1000 })();
+            await vi.advanceTimersByTimeAsync(0);
+
+            expect(await promise).toBe("ok");
+            expect(fn).toHaveBeenCalledTimes(2);
+        });
+
+        test("should reject with the last error once every attempt has failed", async () => {
+            const fn = vi.fn().mockRejectedValueOnce(new Error("first")).mockRejectedValueOnce(new Error("second"));
+
+            await expect(withHedging(fn, { delayMs: 100 })()).rejects.toThrow("second");
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("should abort all attempts when the caller's signal aborts", async () => {
+            const controller = new AbortController();
+            const reason = new Error("cancelled");
+            const signals: AbortSignal[] = [];
+            const fn = abortable(signal => {
+                signals.push(signal);
+                return sleep(1000);
+            });
+
+            const promise = withHedging(fn, { delayMs: 100 })(controller.signal);
+            await vi.advanceTimersByTimeAsync(100);
+            controller.abort(reason);
+
+            await expect(promise).rejects.toBe(reason);
+            expect(signals).toHaveLength(2);
+            expect(signals.every(signal => signal.reason === reason)).toBe(true);
+        });
+
+        test("should pass the arguments of a function that is not abortable as is", async () => {
+            const fn = vi.fn(async (x: number, options?: { label: string }) => `${options?.label ?? ""}${x}`);
+
+            expect(await withHedging(fn, { delayMs: 100 })(1)).toBe("1");
+            expect(fn).toHaveBeenCalledWith(1);
+        });
+
+        test("should reject an invalid maxAttempts", () => {
+            expect(() => withHedging(() => sleep(0), { delayMs: 100, maxAttempts: 0 })).toThrow(
+                "Hedging maxAttempts must be a positive integer"
+            );
+        });
     });
 
     describe("withRetry", () => {
@@ -219,6 +541,128 @@ describe("async utilities", () => {
             await expect(retryFn()).rejects.toHaveProperty("lastError", testError);
             expect(fn).toHaveBeenCalledTimes(6); // 3 calls for each of the two expect tests
         }, 10000);
+
+        test("should stop retrying when the signal is aborted", async () => {
+            const controller = new AbortController();
+            const reason = new Error("cancelled");
+            const fn = vi.fn().mockRejectedValue(new Error("fail"));
+
+            const promise = withRetry(fn, 5, () => 1000, controller.signal)();
+            await vi.advanceTimersByTimeAsync(0);
+            controller.abort(reason);
+
+            await expect(promise).rejects.toBe(reason);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(fn.mock.calls[0]).toEqual([]);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("should pass a combined signal to an abortable function on every attempt", async () => {
+            const controller = new AbortController();
+            const reason = new Error("cancelled");
+            const signals: AbortSignal[] = [];
+            const fn = abortable(async (signal, id: number) => {
+                signals.push(signal);
+                throw new Error(`fail ${id}`);
+            });
+
+            const promise = withRetry(fn, 3, () => 1000)(1, controller.signal);
+            const assertion = expect(promise).rejects.toBe(reason);
+            await vi.advanceTimersByTimeAsync(1000);
+            controller.abort(reason);
+            await assertion;
+
+            expect(signals).toHaveLength(2);
+            expect(signals[0]).not.toBe(controller.signal);
+            expect(signals.every(signal => signal.reason === reason)).toBe(true);
+        });
+
+        test("should pass a signal through nested decorators of an abortable function", async () => {
+            let received: AbortSignal | undefined;
+            const fn = abortable(async (signal, id: string) => {
+                received = signal;
+                await sleep(1000);
+                return id;
+            });
+
+            const promise = withRetry(withTimeout(fn, 500), 1)("a");
+            const assertion = expect(promise).rejects.toThrow(RetryError);
+            await vi.advanceTimersByTimeAsync(500);
+            await assertion;
+
+            expect(received?.reason).toBeInstanceOf(TimeoutError);
+        });
+
+        test("should pass the arguments of a function that is not abortable as is", async () => {
+            const fn = vi.fn(async (...ids: string[]) => ids.join(","));
+
+            expect(await withRetry(fn, 3)("a", "b")).toBe("a,b");
+            expect(fn).toHaveBeenCalledWith("a", "b");
+        });
+
+        test("should record the error of every attempt", async () => {
+            const errors = [new Error("fail 1"), new Error("fail 2"), new Error("fail 3")];
+            const fn = vi
+                .fn()
+                .mockRejectedValueOnce(errors[0])
+                .mockRejectedValueOnce(errors[1])
+                .mockRejectedValueOnce(errors[2]);
+
+            const promise = withRetry(fn, { tries: 3, wait: () => 100 })();
+            const result = expect(promise).rejects.toMatchObject({ lastError: errors[2], errors });
+            await vi.advanceTimersByTimeAsync(200);
+
+            await result;
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        test("should throw errors that should not be retried as is", async () => {
+            const error = Object.assign(new Error("bad request"), { status: 400 });
+            const fn = vi.fn().mockRejectedValue(error);
+            const shouldRetry = vi.fn((error: any) => error.status >= 500);
+
+            await expect(withRetry(fn, { tries: 5, shouldRetry })()).rejects.toBe(error);
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(shouldRetry).toHaveBeenCalledWith(error, 0);
+        });
+
+        test("should cap each wait with maxDelay, and call onRetry before waiting", async () => {
+            const fn = vi.fn().mockRejectedValueOnce(new Error("fail 1")).mockRejectedValueOnce(new Error("fail 2"));
+            fn.mockResolvedValue("success");
+            const onRetry = vi.fn();
+
+            const promise = withRetry(fn, { tries: 3, wait: expBackoff(1000), maxDelay: 1500, onRetry })();
+            await vi.advanceTimersByTimeAsync(2500);
+
+            expect(await promise).toBe("success");
+            expect(onRetry.mock.calls.map(([error, i, delay]) => [error.message, i, delay])).toEqual([
+                ["fail 1", 0, 1000],
+                ["fail 2", 1, 1500],
+            ]);
+        });
+
+        test("should stop once the time budget would be exceeded", async () => {
+            const fn = vi.fn().mockRejectedValue(new Error("fail"));
+
+            const promise = withRetry(fn, { tries: 10, wait: () => 400, budgetMs: 1000 })();
+            const result = expect(promise).rejects.toThrow("Failed after 3 attempts");
+            await vi.advanceTimersByTimeAsync(1000);
+
+            await result;
+            expect(fn).toHaveBeenCalledTimes(3);
+        });
+
+        test("should wait for the delay requested by the error", async () => {
+            const error = Object.assign(new Error("too many requests"), { retryAfter: 5000 });
+            const fn = vi.fn().mockRejectedValueOnce(error).mockResolvedValue("success");
+
+            const promise = withRetry(fn, { wait: () => 10, maxDelay: 100 })();
+            await vi.advanceTimersByTimeAsync(4999);
+            expect(fn).toHaveBeenCalledTimes(1);
+
+            await vi.advanceTimersByTimeAsync(1);
+            expect(await promise).toBe("success");
+        });
     });
 
     describe("timeout", () => {
@@ -237,6 +681,16 @@ describe("async utilities", () => {
             vi.advanceTimersByTime(1000);
             await expect(promise).rejects.toBe(customError);
         });
+
+        test("should reject with the signal's reason when aborted", async () => {
+            const controller = new AbortController();
+            const promise = timeout({ ms: 1000, signal: controller.signal });
+
+            controller.abort("stop");
+
+            await expect(promise).rejects.toBe("stop");
+            expect(vi.getTimerCount()).toBe(0);
+        });
     });
 
     describe("expBackoff", () => {
@@ -258,6 +712,29 @@ describe("async utilities", () => {
         });
     });
 
+    describe("fullJitter", () => {
+        test("should randomize the wait between 0 and the given wait", () => {
+            const wait = fullJitter(expBackoff(100));
+
+            vi.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValueOnce(0.5).mockReturnValueOnce(0.999);
+            expect(wait(0)).toBe(0);
+            expect(wait(1)).toBe(100);
+            expect(wait(2)).toBe(399);
+            vi.restoreAllMocks();
+        });
+    });
+
+    describe("decorrelatedJitter", () => {
+        test("should randomize the wait between the minimum and 3 times the previous wait", () => {
+            const wait = decorrelatedJitter(100);
+
+            vi.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValueOnce(0.5);
+            expect(wait(0, 0)).toBe(100);
+            expect(wait(1, 1000)).toBe(1550);
+            vi.restoreAllMocks();
+        });
+    });
+
     describe("deferred", () => {
         test("should create a promise with resolve and reject functions", async () => {
             const { promise, resolve, reject } = deferred<string>();
@@ -0,0 +1,54 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { Barrier } from "~/barrier";
+import { TimeoutError } from "~/error";
+
+describe("Barrier", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should release all parties once the last one arrives", async () => {
+        const barrier = new Barrier(3);
+        const released = vi.fn();
+
+        barrier.wait().then(released);
+        barrier.wait().then(released);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(barrier.waiting).toBe(2);
+        expect(released).not.toHaveBeenCalled();
+
+        expect(await barrier.wait()).toBe(2);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(released.mock.calls).toEqual([[0], [1]]);
+        expect(barrier.waiting).toBe(0);
+    });
+
+    test("should be reusable for the next phase", async () => {
+        const barrier = new Barrier(2);
+
+        expect(await Promise.all([barrier.wait(), barrier.wait()])).toEqual([0, 1]);
+        expect(await Promise.all([barrier.wait(), barrier.wait()])).toEqual([0, 1]);
+    });
+
+    test("should no longer count a party that has timed out", async () => {
+        const barrier = new Barrier(2);
+
+        const promise = barrier.wait({ timeoutMs: 100 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+        expect(barrier.waiting).toBe(0);
+
+        const first = barrier.wait();
+        expect(await barrier.wait()).toBe(1);
+        expect(await first).toBe(0);
+    });
+
+    test("should reject an invalid number of parties", () => {
+        expect(() => new Barrier(0)).toThrow("Barrier parties must be a positive integer");
+    });
+});
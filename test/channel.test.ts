@@ -0,0 +1,208 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { sleep } from "~/async";
+import { Channel, select } from "~/channel";
+import { ChannelClosedError, TimeoutError } from "~/error";
+
+describe("Channel", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should pass values in order through the buffer", async () => {
+        const channel = new Channel<number>(3);
+
+        await channel.send(1);
+        await channel.send(2);
+        expect(channel.size).toBe(2);
+
+        expect(await channel.receive()).toBe(1);
+        expect(await channel.receive()).toBe(2);
+        expect(channel.size).toBe(0);
+    });
+
+    test("should make senders wait while the buffer is full", async () => {
+        const channel = new Channel<number>(1);
+        const sent = vi.fn();
+
+        await channel.send(1);
+        channel.send(2).then(sent);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sent).not.toHaveBeenCalled();
+
+        expect(await channel.receive()).toBe(1);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sent).toHaveBeenCalled();
+        expect(channel.size).toBe(1);
+        expect(await channel.receive()).toBe(2);
+    });
+
+    test("should make receivers wait while the buffer is empty", async () => {
+        const channel = new Channel<string>(1);
+
+        const received = channel.receive();
+        await channel.send("hello");
+
+        expect(await received).toBe("hello");
+        expect(channel.size).toBe(0);
+    });
+
+    test("should hand values straight to a receiver when unbuffered", async () => {
+        const channel = new Channel<number>();
+        const sent = vi.fn();
+
+        channel.send(1).then(sent);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sent).not.toHaveBeenCalled();
+        expect(channel.trySend(2)).toBe(false);
+
+        expect(channel.tryReceive()).toEqual({ value: 1 });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sent).toHaveBeenCalled();
+        expect(channel.tryReceive()).toBeNull();
+    });
+
+    test("should drain buffered values after closing, then end iteration", async () => {
+        const channel = new Channel<number>(5);
+        await channel.send(1);
+        await channel.send(2);
+        channel.close();
+
+        expect(channel.isClosed).toBe(true);
+        const values: number[] = [];
+        for await (const value of channel) {
+            values.push(value);
+        }
+        expect(values).toEqual([1, 2]);
+        await expect(channel.receive()).rejects.toThrow(ChannelClosedError);
+    });
+
+    test("should reject sending on a closed channel, and waiting senders and receivers when closed", async () => {
+        const full = new Channel<number>(0);
+        const sending = full.send(1);
+        const empty = new Channel<number>(0);
+        const receiving = empty.receive();
+
+        full.close();
+        empty.close();
+
+        await expect(sending).rejects.toThrow(ChannelClosedError);
+        await expect(receiving).rejects.toThrow(ChannelClosedError);
+        await expect(full.send(2)).rejects.toThrow(ChannelClosedError);
+        expect(() => full.trySend(2)).toThrow(ChannelClosedError);
+    });
+
+    test("should connect a producer and a consumer with backpressure", async () => {
+        const channel = new Channel<number>(2);
+        const produced: number[] = [];
+
+        const producer = (async () => {
+            for (let i = 0; i < 5; i++) {
+                await channel.send(i);
+                produced.push(i);
+            }
+            channel.close();
+        })();
+
+        const consumed: number[] = [];
+        const consumer = (async () => {
+            for await (const value of channel) {
+                await sleep(100);
+                consumed.push(value);
+            }
+        })();
+
+        await vi.advanceTimersByTimeAsync(0);
+        // one taken by the consumer, and two buffered
+        expect(produced).toEqual([0, 1, 2]);
+
+        await vi.advanceTimersByTimeAsync(500);
+        await Promise.all([producer, consumer]);
+        expect(consumed).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    test("should stop waiting to send when aborted or timed out", async () => {
+        const channel = new Channel<number>(0);
+        const controller = new AbortController();
+
+        const aborted = channel.send(1, { signal: controller.signal });
+        controller.abort(new Error("stop"));
+        await expect(aborted).rejects.toThrow("stop");
+
+        const timed = channel.send(2, { timeoutMs: 100 });
+        const assertion = expect(timed).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+
+        expect(channel.tryReceive()).toBeNull();
+    });
+
+    test("should reject an invalid capacity", () => {
+        expect(() => new Channel(-1)).toThrow("Channel capacity must be a non-negative integer");
+    });
+});
+
+describe("select", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should receive from a channel that is already ready", async () => {
+        const numbers = new Channel<number>(1);
+        const words = new Channel<string>(1);
+        await words.send("hello");
+
+        const result = await select({ numbers, words });
+
+        expect(result).toEqual({ key: "words", value: "hello" });
+    });
+
+    test("should wait for whichever channel has a value first, and receive exactly one value", async () => {
+        const numbers = new Channel<number>(1);
+        const words = new Channel<string>(1);
+
+        const promise = select({ numbers, words });
+        await numbers.send(1);
+        await words.send("hello");
+
+        const result = await promise;
+        if (result.key === "numbers") {
+            expect(result.value).toBe(1);
+        }
+        expect(result).toEqual({ key: "numbers", value: 1 });
+        expect(words.size).toBe(1);
+    });
+
+    test("should reject with a TimeoutError when nothing is ready in time, without taking a value later", async () => {
+        const numbers = new Channel<number>(1);
+
+        const promise = select({ numbers }, { timeoutMs: 100 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+
+        await numbers.send(1);
+        expect(numbers.size).toBe(1);
+    });
+
+    test("should skip closed channels, and reject once all are closed", async () => {
+        const first = new Channel<number>();
+        const second = new Channel<number>(1);
+
+        const promise = select({ first, second });
+        first.close();
+        await second.send(2);
+        expect(await promise).toEqual({ key: "second", value: 2 });
+
+        const waiting = select({ first, second });
+        second.close();
+        await expect(waiting).rejects.toThrow(ChannelClosedError);
+    });
+});
@@ -0,0 +1,182 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { CircuitBreaker, withCircuitBreaker } from "~/circuit-breaker";
+import { CircuitOpenError } from "~/error";
+
+describe("CircuitBreaker", () => {
+    const fail = () => Promise.reject(new Error("fail"));
+    const succeed = () => Promise.resolve("ok");
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should pass calls through while closed", async () => {
+        const breaker = new CircuitBreaker();
+
+        expect(await breaker.use(succeed)).toBe("ok");
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+
+        expect(breaker.state).toBe("closed");
+        expect(breaker.stats).toEqual({
+            state: "closed",
+            successes: 1,
+            failures: 1,
+            failureRate: 0.5,
+            consecutiveFailures: 1,
+            rejected: 0,
+        });
+    });
+
+    test("should open after consecutive failures, and reject fast", async () => {
+        const onStateChange = vi.fn();
+        const breaker = new CircuitBreaker({ failureThreshold: 2, onStateChange });
+        const fn = vi.fn(succeed);
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+
+        expect(breaker.state).toBe("open");
+        expect(onStateChange).toHaveBeenCalledWith("open", "closed");
+        await expect(breaker.use(fn)).rejects.toThrow(CircuitOpenError);
+        expect(fn).not.toHaveBeenCalled();
+        expect(breaker.stats.rejected).toBe(1);
+    });
+
+    test("should open when the failure rate within the window reaches the threshold", async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 100, failureRateThreshold: 0.5, minimumCalls: 4 });
+
+        await breaker.use(succeed);
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        await breaker.use(succeed);
+        expect(breaker.state).toBe("closed");
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        expect(breaker.state).toBe("open");
+    });
+
+    test("should forget failures outside the window", async () => {
+        const breaker = new CircuitBreaker({
+            failureThreshold: 100,
+            failureRateThreshold: 0.5,
+            minimumCalls: 2,
+            windowMs: 1000,
+        });
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        vi.advanceTimersByTime(1000);
+        await breaker.use(succeed);
+
+        expect(breaker.stats.failures).toBe(0);
+        expect(breaker.state).toBe("closed");
+    });
+
+    test("should let limited trial calls through when half-open, and close if they succeed", async () => {
+        const onStateChange = vi.fn();
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, onStateChange });
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        vi.advanceTimersByTime(1000);
+        expect(breaker.state).toBe("half-open");
+
+        let finish!: (value: string) => void;
+        const trial = breaker.use(() => new Promise<string>(resolve => (finish = resolve)));
+        await expect(breaker.use(succeed)).rejects.toThrow(CircuitOpenError);
+
+        finish("ok");
+        expect(await trial).toBe("ok");
+        expect(breaker.state).toBe("closed");
+        expect(onStateChange.mock.calls).toEqual([
+            ["open", "closed"],
+            ["half-open", "open"],
+            ["closed", "half-open"],
+        ]);
+    });
+
+    test("should open again if a trial call fails", async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        vi.advanceTimersByTime(1000);
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+
+        expect(breaker.state).toBe("open");
+        vi.advanceTimersByTime(999);
+        expect(breaker.state).toBe("open");
+    });
+
+    test("should ignore errors that are not failures", async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, isFailure: error => error.message !== "not found" });
+
+        await expect(breaker.use(() => Promise.reject(new Error("not found")))).rejects.toThrow("not found");
+        expect(breaker.state).toBe("closed");
+    });
+
+    test("should leave the failure count unchanged for errors that are not failures", async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 2, isFailure: error => error.message !== "not found" });
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        await expect(breaker.use(() => Promise.reject(new Error("not found")))).rejects.toThrow("not found");
+        expect(breaker.stats).toMatchObject({ consecutiveFailures: 1, successes: 0, failures: 1 });
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        expect(breaker.state).toBe("open");
+    });
+
+    test("should free the trial slot of a half-open call that fails with an ignored error", async () => {
+        const breaker = new CircuitBreaker({
+            failureThreshold: 1,
+            resetTimeoutMs: 1000,
+            isFailure: error => error.message !== "not found",
+        });
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        vi.advanceTimersByTime(1000);
+        await expect(breaker.use(() => Promise.reject(new Error("not found")))).rejects.toThrow("not found");
+        expect(breaker.state).toBe("half-open");
+
+        expect(await breaker.use(succeed)).toBe("ok");
+        expect(breaker.state).toBe("closed");
+    });
+
+    test("should keep the outcome of a call when onStateChange throws", async () => {
+        const onStateChange = vi.fn(() => {
+            throw new Error("hook");
+        });
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, onStateChange });
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        expect(breaker.state).toBe("open");
+
+        vi.advanceTimersByTime(1000);
+        expect(await breaker.use(succeed)).toBe("ok");
+        expect(breaker.state).toBe("closed");
+        expect(breaker.stats.failures).toBe(0);
+        expect(onStateChange).toHaveBeenCalledTimes(3);
+    });
+
+    test("should close and forget calls on reset", async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+        await expect(breaker.use(fail)).rejects.toThrow("fail");
+        breaker.reset();
+
+        expect(breaker.state).toBe("closed");
+        expect(breaker.stats.failures).toBe(0);
+    });
+
+    describe("withCircuitBreaker", () => {
+        test("should decorate a function, sharing a breaker if given one", async () => {
+            const breaker = new CircuitBreaker({ failureThreshold: 1 });
+            const failing = withCircuitBreaker(fail, breaker);
+            const succeeding = withCircuitBreaker(async (x: number) => x * 2, breaker);
+
+            expect(await succeeding(2)).toBe(4);
+            await expect(failing()).rejects.toThrow("fail");
+            await expect(succeeding(2)).rejects.toThrow(CircuitOpenError);
+        });
+    });
+});
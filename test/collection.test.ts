@@ -0,0 +1,198 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { sleep } from "~/async";
+import { pEach, pFilter, pMap, pReduce } from "~/collection";
+import { AggregateTaskError, TaskFailure } from "~/error";
+
+describe("collection helpers", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    async function* count(n: number, onPull?: (i: number) => void) {
+        for (let i = 0; i < n; i++) {
+            onPull?.(i);
+            yield i;
+        }
+    }
+
+    describe("pMap", () => {
+        test("should map items in the order of the source, regardless of completion order", async () => {
+            const promise = pMap([3, 1, 2], n => sleep(n * 100, n * 10));
+            await vi.advanceTimersByTimeAsync(300);
+
+            expect(await promise).toEqual([30, 10, 20]);
+        });
+
+        test("should limit the number of items processed at once", async () => {
+            let running = 0;
+            let peak = 0;
+            const promise = pMap(
+                [1, 2, 3, 4, 5],
+                async n => {
+                    peak = Math.max(peak, ++running);
+                    await sleep(100);
+                    running--;
+                    return n;
+                },
+                { concurrency: 2 }
+            );
+            await vi.advanceTimersByTimeAsync(300);
+
+            expect(await promise).toEqual([1, 2, 3, 4, 5]);
+            expect(peak).toBe(2);
+        });
+
+        test("should read an async source lazily, only when a slot is free", async () => {
+            const controller = new AbortController();
+            const pulled: number[] = [];
+            const promise = pMap(
+                count(1_000_000, i => pulled.push(i)),
+                n => sleep(100, n),
+                {
+                    concurrency: 2,
+                    signal: controller.signal,
+                }
+            );
+
+            await vi.advanceTimersByTimeAsync(0);
+            expect(pulled).toEqual([0, 1]);
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(pulled).toEqual([0, 1, 2, 3]);
+
+            controller.abort(new Error("stop"));
+            await expect(promise).rejects.toThrow("stop");
+        });
+
+        test("should reject with the first error, and stop reading the source", async () => {
+            const pulled: number[] = [];
+            const source = count(10, i => pulled.push(i));
+            const promise = pMap(
+                source,
+                async n => {
+                    await sleep(100);
+                    if (n === 0) throw new Error(`fail ${n}`);
+                    return n;
+                },
+                { concurrency: 2 }
+            );
+            const assertion = expect(promise).rejects.toThrow("fail 0");
+            await vi.advanceTimersByTimeAsync(100);
+            await assertion;
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(pulled).toEqual([0, 1]);
+            expect(await source.next()).toEqual({ done: true, value: undefined });
+        });
+
+        test("should collect every error when not stopping on error", async () => {
+            const mapper = vi.fn(async (n: number) => {
+                if (n % 2 === 1) throw new Error(`fail ${n}`);
+                return n;
+            });
+
+            const error = await pMap([0, 1, 2, 3, 4], mapper, { stopOnError: false }).catch(error => error);
+
+            expect(mapper).toHaveBeenCalledTimes(5);
+            expect(error).toBeInstanceOf(AggregateTaskError);
+            expect(error.message).toBe("Failed for 2 of 5 items");
+            expect(error.failures.map((f: TaskFailure) => [f.index, f.reason.message])).toEqual([
+                [1, "fail 1"],
+                [3, "fail 3"],
+            ]);
+        });
+
+        test("should reject with the signal's reason when aborted", async () => {
+            const controller = new AbortController();
+            const reason = new Error("stop");
+            const mapper = vi.fn((n: number) => sleep(100, n));
+            const promise = pMap(count(10), mapper, { concurrency: 1, signal: controller.signal });
+
+            await vi.advanceTimersByTimeAsync(150);
+            controller.abort(reason);
+
+            await expect(promise).rejects.toBe(reason);
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(mapper).toHaveBeenCalledTimes(2);
+        });
+
+        test("should reject straight away when already aborted", async () => {
+            const controller = new AbortController();
+            controller.abort(new Error("stop"));
+            const mapper = vi.fn();
+
+            await expect(pMap([1], mapper, { signal: controller.signal })).rejects.toThrow("stop");
+            expect(mapper).not.toHaveBeenCalled();
+        });
+
+        test("should reject when the source throws", async () => {
+            async function* broken() {
+                yield 1;
+                throw new Error("broken");
+            }
+
+            await expect(pMap(broken(), n => n)).rejects.toThrow("broken");
+        });
+
+        test("should map the characters of a string source", async () => {
+            expect(await pMap("abc", c => c.toUpperCase())).toEqual(["A", "B", "C"]);
+        });
+
+        test("should resolve to an empty array for an empty source", async () => {
+            expect(await pMap([], n => n)).toEqual([]);
+        });
+
+        test("should reject an invalid concurrency", async () => {
+            await expect(pMap([1], n => n, { concurrency: 0 })).rejects.toThrow(
+                "Concurrency must be a positive integer"
+            );
+        });
+    });
+
+    describe("pFilter", () => {
+        test("should keep the items that pass, in the order of the source", async () => {
+            const promise = pFilter([5, 2, 8, 1], n => sleep(n * 10, n > 2), { concurrency: 2 });
+            await vi.runAllTimersAsync();
+
+            expect(await promise).toEqual([5, 8]);
+        });
+    });
+
+    describe("pEach", () => {
+        test("should call the function for each item", async () => {
+            const seen: Array<[number, number]> = [];
+            await pEach(new Set([10, 20, 30]), (n, i) => seen.push([n, i]), { concurrency: 1 });
+
+            expect(seen).toEqual([
+                [10, 0],
+                [20, 1],
+                [30, 2],
+            ]);
+        });
+    });
+
+    describe("pReduce", () => {
+        test("should reduce the items one at a time, in order", async () => {
+            const promise = pReduce(count(4), async (sum, n, i) => sum + (await sleep(10, n)) * i, 0);
+            await vi.runAllTimersAsync();
+
+            expect(await promise).toBe(0 + 1 + 4 + 9);
+        });
+
+        test("should reject with the signal's reason when aborted", async () => {
+            const controller = new AbortController();
+            const reason = new Error("stop");
+            const reducer = vi.fn(async (sum: number, n: number) => {
+                if (n === 1) controller.abort(reason);
+                return sum + n;
+            });
+
+            await expect(pReduce([0, 1, 2, 3], reducer, 0, { signal: controller.signal })).rejects.toBe(reason);
+            expect(reducer).toHaveBeenCalledTimes(2);
+        });
+    });
+});
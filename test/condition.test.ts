@@ -0,0 +1,136 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { sleep } from "~/async";
+import { Condition } from "~/condition";
+import { TimeoutError } from "~/error";
+import { Mutex } from "~/mutex";
+
+describe("Condition", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should release the mutex while waiting, and hold it again once notified", async () => {
+        const mutex = new Mutex();
+        const condition = new Condition(mutex);
+        const events: string[] = [];
+
+        const waiting = (async () => {
+            let release = await mutex.acquire();
+            events.push("wait");
+            release = await condition.wait(release);
+            events.push("woken");
+            release();
+        })();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(condition.waiting).toBe(1);
+
+        const notifying = mutex.use(async () => {
+            condition.notify();
+            await sleep(100);
+            events.push("notified");
+        });
+        await vi.advanceTimersByTimeAsync(100);
+        await notifying;
+        await waiting;
+
+        expect(events).toEqual(["wait", "notified", "woken"]);
+    });
+
+    test("should wait in a loop until the state changes", async () => {
+        const mutex = new Mutex();
+        const notEmpty = new Condition(mutex);
+        const items: number[] = [];
+
+        const consumed = notEmpty.use(async wait => {
+            while (items.length === 0) await wait();
+            return items.shift();
+        });
+        await vi.advanceTimersByTimeAsync(0);
+
+        await mutex.use(() => notEmpty.notify());
+        await vi.advanceTimersByTimeAsync(0);
+        expect(notEmpty.waiting).toBe(1);
+
+        await mutex.use(() => {
+            items.push(1);
+            notEmpty.notify();
+        });
+        expect(await consumed).toBe(1);
+        expect(await mutex.use(() => "free")).toBe("free");
+    });
+
+    test("should wake one waiter with notify, and all with notifyAll", async () => {
+        const mutex = new Mutex();
+        const condition = new Condition(mutex);
+        const woken = vi.fn();
+
+        for (let i = 0; i < 3; i++) {
+            condition.use(wait => wait()).then(woken);
+        }
+        await vi.advanceTimersByTimeAsync(0);
+        expect(condition.waiting).toBe(3);
+
+        condition.notify();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(woken).toHaveBeenCalledTimes(1);
+
+        condition.notifyAll();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(woken).toHaveBeenCalledTimes(3);
+    });
+
+    test("should stop waiting when the timeout elapses, releasing the mutex once done", async () => {
+        const mutex = new Mutex();
+        const condition = new Condition(mutex);
+
+        const promise = condition.use(wait => wait({ timeoutMs: 100 }));
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+
+        expect(condition.waiting).toBe(0);
+        expect(await mutex.use(() => "free")).toBe("free");
+    });
+
+    test("should hold the mutex again after a wait that timed out", async () => {
+        const mutex = new Mutex();
+        const condition = new Condition(mutex);
+        const events: string[] = [];
+
+        const result = condition.use(async wait => {
+            const error = await wait({ timeoutMs: 100 }).catch(error => error);
+            events.push("carried on");
+            return error;
+        });
+        await vi.advanceTimersByTimeAsync(0);
+
+        // takes the mutex while the condition waits, and holds it past the timeout
+        const other = mutex.use(async () => {
+            await sleep(200);
+            events.push("other done");
+        });
+        await vi.advanceTimersByTimeAsync(200);
+
+        expect(await result).toBeInstanceOf(TimeoutError);
+        await other;
+        expect(events).toEqual(["other done", "carried on"]);
+    });
+
+    test("should stop waiting when aborted", async () => {
+        const mutex = new Mutex();
+        const condition = new Condition(mutex);
+        const controller = new AbortController();
+
+        const release = await mutex.acquire();
+        const promise = condition.wait(release, { signal: controller.signal });
+        controller.abort(new Error("stop"));
+
+        await expect(promise).rejects.toThrow("stop");
+        expect(release()).toBe(false);
+        expect(await mutex.use(() => "free")).toBe("free");
+    });
+});
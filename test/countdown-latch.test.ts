@@ -0,0 +1,62 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { CountdownLatch } from "~/countdown-latch";
+import { TimeoutError } from "~/error";
+
+describe("CountdownLatch", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should open once counted down to zero", async () => {
+        const latch = new CountdownLatch(3);
+        const opened = vi.fn();
+        latch.wait().then(opened);
+
+        latch.countDown();
+        latch.countDown();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(latch.count).toBe(1);
+        expect(opened).not.toHaveBeenCalled();
+
+        latch.countDown();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(opened).toHaveBeenCalled();
+        await latch.wait();
+    });
+
+    test("should count down by more than one, stopping at zero", async () => {
+        const latch = new CountdownLatch(2);
+        latch.countDown(5);
+        expect(latch.count).toBe(0);
+        await latch.wait();
+    });
+
+    test("should stop waiting when the timeout elapses", async () => {
+        const latch = new CountdownLatch(1);
+
+        const promise = latch.wait({ timeoutMs: 100 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+
+        latch.countDown();
+        expect(latch.count).toBe(0);
+    });
+
+    test("should reject an invalid count", () => {
+        expect(() => new CountdownLatch(-1)).toThrow("CountdownLatch count must be a non-negative integer");
+    });
+
+    test("should reject counting down by anything but a positive integer", () => {
+        const latch = new CountdownLatch(2);
+
+        for (const n of [-3, 0, 0.5]) {
+            expect(() => latch.countDown(n)).toThrow("CountdownLatch count down must be a positive integer");
+        }
+        expect(latch.count).toBe(2);
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { Mutex } from "~/mutex";
+import { Semaphore } from "~/semaphore";
+
+describe("debug mode", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    test("should dump holders with their acquire stacks, and waiters", async () => {
+        const semaphore = new Semaphore(2, { debug: true });
+
+        const release = await semaphore.acquire(2);
+        semaphore.acquire({ priority: 1 });
+        await vi.advanceTimersByTimeAsync(50);
+
+        const dump = semaphore.dump();
+        expect(dump.holders).toEqual([
+            { id: 1, permits: 2, acquiredAt: expect.any(Number), heldMs: 50, stack: expect.any(String) },
+        ]);
+        expect(dump.holders[0].stack).toContain("debug.test.ts");
+        expect(dump.waiters).toEqual([{ permits: 1, priority: 1, waitedMs: 50, stack: expect.any(String) }]);
+
+        release();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(semaphore.dump().holders.map(holder => holder.id)).toEqual([2]);
+        expect(semaphore.dump().waiters).toEqual([]);
+    });
+
+    test("should only dump waiters when not in debug mode", async () => {
+        const semaphore = new Semaphore(1);
+
+        await semaphore.acquire();
+        semaphore.acquire();
+
+        expect(semaphore.dump()).toEqual({
+            holders: [],
+            waiters: [{ permits: 1, priority: 0, waitedMs: 0, stack: undefined }],
+        });
+    });
+
+    test("should warn when a permit is held too long", async () => {
+        const onWarning = vi.fn();
+        const mutex = new Mutex({ debug: { holdWarningMs: 1000, onWarning } });
+
+        const release = await mutex.acquire();
+        await vi.advanceTimersByTimeAsync(999);
+        expect(onWarning).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(onWarning).toHaveBeenCalledWith({
+            type: "held-too-long",
+            message: "Permit held for more than 1000ms",
+            holder: expect.objectContaining({ id: 1, heldMs: 1000 }),
+        });
+
+        release();
+        await mutex.use(() => vi.advanceTimersByTimeAsync(500));
+        expect(onWarning).toHaveBeenCalledTimes(1);
+    });
+
+    test("should warn when a release is called more than once", async () => {
+        const onWarning = vi.fn();
+        const mutex = new Mutex({ debug: { onWarning } });
+
+        const release = await mutex.acquire();
+        expect(release()).toBe(true);
+        expect(release()).toBe(false);
+
+        expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ type: "double-release" }));
+        expect(mutex.dump().holders).toEqual([]);
+    });
+
+    test("should warn when a release is garbage collected without being called", async () => {
+        // garbage collection cannot be forced here, so the registry's cleanup is called by hand
+        let cleanup: (held: unknown) => void = () => {};
+        const held: unknown[] = [];
+        vi.stubGlobal(
+            "FinalizationRegistry",
+            class {
+                constructor(callback: (held: unknown) => void) {
+                    cleanup = callback;
+                }
+                register(_target: object, value: unknown) {
+                    held.push(value);
+                }
+                unregister(token: unknown) {
+                    held.splice(held.indexOf(token), 1);
+                }
+            }
+        );
+        const onWarning = vi.fn();
+        const semaphore = new Semaphore(2, { debug: { onWarning } });
+
+        const released = await semaphore.acquire();
+        await semaphore.acquire();
+        released();
+        expect(held).toHaveLength(1);
+
+        cleanup(held[0]);
+        expect(onWarning).toHaveBeenCalledWith({
+            type: "leaked",
+            message: "Release was garbage collected without being called",
+            holder: expect.objectContaining({ id: 2, stack: expect.stringContaining("debug.test.ts") }),
+        });
+    });
+
+    test("should log warnings to the console by default", async () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const semaphore = new Semaphore(1, { debug: { holdWarningMs: 100 } });
+
+        const release = await semaphore.acquire();
+        await vi.advanceTimersByTimeAsync(100);
+        release();
+
+        expect(warn).toHaveBeenCalledWith("Permit held for more than 100ms", expect.any(String));
+        warn.mockRestore();
+    });
+});
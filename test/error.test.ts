@@ -1,5 +1,14 @@
 import { describe, test, expect } from "vitest";
-import { TimeoutError, RetryError } from "~/error";
+import {
+    TimeoutError,
+    RetryError,
+    PoolClosedError,
+    CircuitOpenError,
+    QueueFullError,
+    CancelledError,
+    ChannelClosedError,
+    AggregateTaskError,
+} from "~/error";
 
 describe("Error classes", () => {
     describe("TimeoutError", () => {
@@ -25,6 +34,7 @@ describe("Error classes", () => {
             expect(error.name).toBe("RetryError");
             expect(error instanceof Error).toBe(true);
             expect(error.lastError).toBeUndefined();
+            expect(error.errors).toEqual([]);
         });
 
         test("should create RetryError with custom message", () => {
@@ -38,6 +48,75 @@ describe("Error classes", () => {
             const lastError = new Error("Network error");
             const error = new RetryError("Failed after 3 retries", lastError);
             expect(error.lastError).toBe(lastError);
+            expect(error.errors).toEqual([lastError]);
+        });
+
+        test("should store the error of every attempt", () => {
+            const errors = [new Error("fail 1"), new Error("fail 2")];
+            const error = new RetryError("Failed after 2 retries", errors[1], errors);
+            expect(error.errors).toBe(errors);
+        });
+    });
+
+    describe("PoolClosedError", () => {
+        test("should create PoolClosedError with default message", () => {
+            const error = new PoolClosedError();
+            expect(error.message).toBe("Task pool is closed");
+            expect(error.name).toBe("PoolClosedError");
+            expect(error instanceof Error).toBe(true);
+        });
+    });
+
+    describe("CircuitOpenError", () => {
+        test("should create CircuitOpenError with default message", () => {
+            const error = new CircuitOpenError();
+            expect(error.message).toBe("Circuit is open");
+            expect(error.name).toBe("CircuitOpenError");
+            expect(error instanceof Error).toBe(true);
+        });
+    });
+
+    describe("QueueFullError", () => {
+        test("should create QueueFullError with default message", () => {
+            const error = new QueueFullError();
+            expect(error.message).toBe("Queue is full");
+            expect(error.name).toBe("QueueFullError");
+            expect(error instanceof Error).toBe(true);
+        });
+    });
+
+    describe("CancelledError", () => {
+        test("should create CancelledError with default message", () => {
+            const error = new CancelledError();
+            expect(error.message).toBe("Cancelled");
+            expect(error.name).toBe("CancelledError");
+            expect(error instanceof Error).toBe(true);
+        });
+    });
+
+    describe("ChannelClosedError", () => {
+        test("should create ChannelClosedError with default message", () => {
+            const error = new ChannelClosedError();
+            expect(error.message).toBe("Channel is closed");
+            expect(error.name).toBe("ChannelClosedError");
+            expect(error instanceof Error).toBe(true);
+        });
+    });
+
+    describe("AggregateTaskError", () => {
+        test("should create AggregateTaskError with default message", () => {
+            const error = new AggregateTaskError();
+            expect(error.message).toBe("Some tasks failed");
+            expect(error.name).toBe("AggregateTaskError");
+            expect(error instanceof Error).toBe(true);
+            expect(error.failures).toEqual([]);
+            expect(error.results).toEqual([]);
+        });
+
+        test("should store the failures with their task indices", () => {
+            const reason = new Error("task failed");
+            const error = new AggregateTaskError("1 of 2 tasks failed", [{ index: 1, reason }]);
+            expect(error.failures[0]).toEqual({ index: 1, reason });
         });
     });
 });
@@ -0,0 +1,102 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { TimeoutError } from "~/error";
+import { AutoResetEvent, ManualResetEvent } from "~/event";
+
+describe("ManualResetEvent", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should release all waiters when set, and stay set", async () => {
+        const event = new ManualResetEvent();
+        const released = vi.fn();
+
+        event.wait().then(released);
+        event.wait().then(released);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(released).not.toHaveBeenCalled();
+
+        event.set();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(released).toHaveBeenCalledTimes(2);
+        expect(event.isSet).toBe(true);
+        await event.wait();
+    });
+
+    test("should make waiters wait again once reset", async () => {
+        const event = new ManualResetEvent(true);
+        await event.wait();
+
+        event.reset();
+        const promise = event.wait({ timeoutMs: 100 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+    });
+
+    test("should stop waiting when aborted", async () => {
+        const event = new ManualResetEvent();
+        const controller = new AbortController();
+
+        const promise = event.wait({ signal: controller.signal });
+        controller.abort(new Error("stop"));
+        await expect(promise).rejects.toThrow("stop");
+    });
+});
+
+describe("AutoResetEvent", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should release one waiter each time it is set", async () => {
+        const event = new AutoResetEvent();
+        const released = vi.fn();
+
+        event.wait().then(() => released(1));
+        event.wait().then(() => released(2));
+
+        event.set();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(released.mock.calls).toEqual([[1]]);
+        expect(event.isSet).toBe(false);
+
+        event.set();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(released.mock.calls).toEqual([[1], [2]]);
+    });
+
+    test("should stay set until a waiter arrives", async () => {
+        const event = new AutoResetEvent();
+        event.set();
+        expect(event.isSet).toBe(true);
+
+        await event.wait();
+        expect(event.isSet).toBe(false);
+
+        const promise = event.wait({ timeoutMs: 100 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+    });
+
+    test("should not hand the signal to a waiter that has timed out", async () => {
+        const event = new AutoResetEvent();
+
+        const promise = event.wait({ timeoutMs: 100 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+
+        event.set();
+        expect(event.isSet).toBe(true);
+    });
+});
@@ -0,0 +1,248 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { fromAsyncIterator, sleep } from "~/async";
+import { TimeoutError } from "~/error";
+import { batch, buffer, chunk, filter, map, mapConcurrent, merge, take, timeoutEach, zip } from "~/iterator";
+
+describe("async iterator operators", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    /**
+     * Yields the items, waiting the given ms before each one, and records whether it was closed early.
+     */
+    function source<T>(items: T[], waitMs: number = 0) {
+        const state = { pulled: 0, closed: false };
+        async function* generate() {
+            try {
+                for (const item of items) {
+                    if (waitMs > 0) await sleep(waitMs);
+                    state.pulled++;
+                    yield item;
+                }
+            } finally {
+                state.closed = true;
+            }
+        }
+        return Object.assign(generate(), { state });
+    }
+
+    async function collect<T>(it: AsyncGenerator<T>): Promise<T[]> {
+        const promise = fromAsyncIterator(it);
+        await vi.runAllTimersAsync();
+        return promise;
+    }
+
+    describe("map", () => {
+        test("should map each item with its index", async () => {
+            expect(await collect(map(source([1, 2, 3]), async (n, i) => n * 10 + i))).toEqual([10, 21, 32]);
+        });
+    });
+
+    describe("filter", () => {
+        test("should keep the items that pass", async () => {
+            expect(await collect(filter(source([1, 2, 3, 4]), n => n % 2 === 0))).toEqual([2, 4]);
+        });
+    });
+
+    describe("take", () => {
+        test("should take the first items, and close the source", async () => {
+            const numbers = source([1, 2, 3, 4, 5]);
+
+            expect(await collect(take(numbers, 2))).toEqual([1, 2]);
+            expect(numbers.state.pulled).toBe(2);
+            expect(numbers.state.closed).toBe(true);
+        });
+
+        test("should close the source when the consumer stops early through a chain", async () => {
+            const numbers = source([1, 2, 3, 4, 5]);
+
+            for await (const n of map(numbers, n => n * 2)) {
+                if (n === 4) break;
+            }
+
+            expect(numbers.state.pulled).toBe(2);
+            expect(numbers.state.closed).toBe(true);
+        });
+    });
+
+    describe("batch", () => {
+        test("should group items by size", async () => {
+            expect(await collect(chunk(source([1, 2, 3, 4, 5]), 2))).toEqual([[1, 2], [3, 4], [5]]);
+        });
+
+        test("should close a batch once the window has passed since its first item", async () => {
+            // items arrive every 40ms
+            const batches = collect(batch(source([1, 2, 3, 4, 5], 40), { size: 10, windowMs: 100 }));
+
+            expect(await batches).toEqual([
+                [1, 2, 3],
+                [4, 5],
+            ]);
+        });
+
+        test("should close the source when the consumer stops early", async () => {
+            const numbers = source([1, 2, 3, 4, 5]);
+            const batches = batch(numbers, { size: 2 });
+
+            expect((await batches.next()).value).toEqual([1, 2]);
+            await batches.return();
+
+            expect(numbers.state.closed).toBe(true);
+        });
+
+        test("should require a size or window", async () => {
+            await expect(batch(source([1]), {}).next()).rejects.toThrow("Batch needs a size or windowMs");
+            await expect(batch(source([1]), { size: 0 }).next()).rejects.toThrow(
+                "Batch size must be a positive integer"
+            );
+        });
+    });
+
+    describe("merge", () => {
+        test("should interleave items as they arrive", async () => {
+            const slow = source(["a", "b"], 100);
+            const fast = source([1, 2, 3], 60);
+
+            expect(await collect(merge<string | number>(slow, fast))).toEqual([1, "a", 2, 3, "b"]);
+        });
+
+        test("should close every source when the consumer stops early", async () => {
+            const first = source([1, 2, 3], 10);
+            const second = source([4, 5, 6], 15);
+
+            expect(await collect(take(merge(first, second), 2))).toEqual([1, 4]);
+            expect(first.state.closed).toBe(true);
+            expect(second.state.closed).toBe(true);
+        });
+    });
+
+    describe("zip", () => {
+        test("should combine items into tuples, ending with the shortest source", async () => {
+            const letters = source(["a", "b", "c"]);
+            const numbers = source([1, 2]);
+
+            const zipped: Array<[string, number]> = await collect(zip(letters, numbers));
+
+            expect(zipped).toEqual([
+                ["a", 1],
+                ["b", 2],
+            ]);
+            expect(letters.state.closed).toBe(true);
+        });
+    });
+
+    describe("buffer", () => {
+        test("should read ahead up to the buffer size while the consumer is slow", async () => {
+            const numbers = source([1, 2, 3, 4, 5, 6]);
+            const buffered = buffer(numbers, 3);
+
+            expect((await buffered.next()).value).toBe(1);
+            await vi.advanceTimersByTimeAsync(0);
+            // 1 was taken, and 2, 3 and 4 wait in the buffer
+            expect(numbers.state.pulled).toBe(4);
+
+            expect(await collect(buffered)).toEqual([2, 3, 4, 5, 6]);
+        });
+
+        test("should rethrow errors from the source after the buffered items", async () => {
+            async function* broken() {
+                yield 1;
+                throw new Error("broken");
+            }
+            const buffered = buffer(broken(), 2);
+
+            expect((await buffered.next()).value).toBe(1);
+            await expect(buffered.next()).rejects.toThrow("broken");
+        });
+
+        test("should close the source when the consumer stops early", async () => {
+            const numbers = source([1, 2, 3, 4, 5, 6]);
+            const buffered = buffer(numbers, 2);
+
+            await buffered.next();
+            await buffered.return();
+            await vi.advanceTimersByTimeAsync(0);
+
+            expect(numbers.state.closed).toBe(true);
+            expect(numbers.state.pulled).toBeLessThan(6);
+        });
+    });
+
+    describe("mapConcurrent", () => {
+        const durations = [300, 100, 200, 50];
+
+        test("should map concurrently, yielding in the order of the source", async () => {
+            let running = 0;
+            let peak = 0;
+            const mapped = mapConcurrent(
+                source([0, 1, 2, 3]),
+                async n => {
+                    peak = Math.max(peak, ++running);
+                    await sleep(durations[n]);
+                    running--;
+                    return n;
+                },
+                { concurrency: 2 }
+            );
+
+            expect(await collect(mapped)).toEqual([0, 1, 2, 3]);
+            expect(peak).toBe(2);
+        });
+
+        test("should yield as results finish when unordered", async () => {
+            const mapped = mapConcurrent(source([0, 1, 2, 3]), n => sleep(durations[n], n), {
+                concurrency: 4,
+                ordered: false,
+            });
+
+            expect(await collect(mapped)).toEqual([3, 1, 2, 0]);
+        });
+
+        test("should read the source only when a slot is free, and close it when stopping early", async () => {
+            const numbers = source([0, 1, 2, 3, 4, 5]);
+            const mapped = mapConcurrent(numbers, n => sleep(10, n), { concurrency: 2 });
+
+            expect(await collect(take(mapped, 1))).toEqual([0]);
+            expect(numbers.state.pulled).toBe(2);
+            expect(numbers.state.closed).toBe(true);
+        });
+
+        test("should rethrow errors from the mapper", async () => {
+            const mapped = mapConcurrent(
+                source([0, 1, 2]),
+                async n => {
+                    if (n === 1) throw new Error("fail");
+                    return n;
+                },
+                { concurrency: 2 }
+            );
+
+            expect((await mapped.next()).value).toBe(0);
+            await expect(mapped.next()).rejects.toThrow("fail");
+        });
+    });
+
+    describe("timeoutEach", () => {
+        test("should pass items through when each arrives in time", async () => {
+            expect(await collect(timeoutEach(source([1, 2, 3], 50), 100))).toEqual([1, 2, 3]);
+        });
+
+        test("should throw a TimeoutError when an item takes too long, and close the source", async () => {
+            const numbers = source([1, 2, 3], 150);
+            const timed = timeoutEach(numbers, 100);
+
+            const next = timed.next();
+            const assertion = expect(next).rejects.toThrow(TimeoutError);
+            await vi.advanceTimersByTimeAsync(100);
+            await assertion;
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(numbers.state.closed).toBe(true);
+        });
+    });
+});
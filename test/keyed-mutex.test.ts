@@ -0,0 +1,33 @@
+import { describe, test, expect } from "vitest";
+import { KeyedMutex } from "~/keyed-mutex";
+
+describe("KeyedMutex", () => {
+    test("should serialize operations on the same key only", async () => {
+        const mutex = new KeyedMutex<string>();
+        const order: string[] = [];
+
+        const task = (key: string, id: string) =>
+            mutex.use(key, async () => {
+                order.push(`start ${id}`);
+                await new Promise(resolve => setTimeout(resolve, 10));
+                order.push(`end ${id}`);
+            });
+
+        const running = Promise.all([task("a", "a1"), task("a", "a2"), task("b", "b1")]);
+        expect(mutex.keys).toEqual(["a", "b"]);
+        await running;
+
+        expect(order).toEqual(["start a1", "start b1", "end a1", "start a2", "end b1", "end a2"]);
+        expect(mutex.keys).toEqual([]);
+    });
+
+    test("should lock and unlock a key manually", async () => {
+        const mutex = new KeyedMutex<string>();
+        const release = await mutex.acquire("file.txt");
+
+        expect(mutex.isLocked("file.txt")).toBe(true);
+        expect(release()).toBe(true);
+        expect(release()).toBe(false);
+        expect(mutex.isLocked("file.txt")).toBe(false);
+    });
+});
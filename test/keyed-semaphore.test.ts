@@ -0,0 +1,71 @@
+import { describe, test, expect } from "vitest";
+import { KeyedSemaphore } from "~/keyed-semaphore";
+
+describe("KeyedSemaphore", () => {
+    test("should throw error if capacity is invalid", () => {
+        expect(() => new KeyedSemaphore(0)).toThrow("Semaphore capacity must be a positive integer");
+    });
+
+    test("should limit each key separately", async () => {
+        const semaphore = new KeyedSemaphore<string>(2);
+
+        const releaseA1 = await semaphore.acquire("a");
+        const releaseA2 = await semaphore.acquire("a");
+        const releaseB = semaphore.tryAcquire("b");
+
+        expect(semaphore.tryAcquire("a")).toBeNull();
+        expect(releaseB).not.toBeNull();
+        expect(semaphore.used("a")).toBe(2);
+        expect(semaphore.keys).toEqual(["a", "b"]);
+
+        releaseA1();
+        releaseA2();
+        releaseB?.();
+        expect(semaphore.keys).toEqual([]);
+    });
+
+    test("should keep the key while a waiter is queued", async () => {
+        const semaphore = new KeyedSemaphore<string>(1);
+        const release1 = await semaphore.acquire("a");
+        const waiting = semaphore.acquire("a");
+
+        release1();
+        expect(semaphore.isLocked("a")).toBe(true);
+
+        const release2 = await waiting;
+        release2();
+        expect(semaphore.isLocked("a")).toBe(false);
+    });
+
+    test("should delete the key once a waiter gives up and the holder releases", async () => {
+        const semaphore = new KeyedSemaphore<string>(1);
+        const controller = new AbortController();
+        const release = await semaphore.acquire("a");
+
+        const waiting = semaphore.acquire("a", { signal: controller.signal });
+        controller.abort("stop");
+        await expect(waiting).rejects.toBe("stop");
+        expect(semaphore.isLocked("a")).toBe(true);
+
+        release();
+        expect(semaphore.keys).toEqual([]);
+    });
+
+    test("should delete the key when acquiring fails", async () => {
+        const semaphore = new KeyedSemaphore<string>(1);
+
+        await expect(semaphore.acquire("a", 2)).rejects.toThrow("Cannot acquire 2 permits");
+        await expect(semaphore.acquire("a", { signal: AbortSignal.abort("stop") })).rejects.toBe("stop");
+        expect(() => semaphore.tryAcquire("b", 2)).toThrow("Cannot acquire 2 permits");
+        expect(semaphore.keys).toEqual([]);
+    });
+
+    test("should release the key after use, even if the function throws", async () => {
+        const semaphore = new KeyedSemaphore<number>(3);
+        const error = new Error("failed");
+
+        expect(await semaphore.use(1, () => semaphore.used(1), 2)).toBe(2);
+        await expect(semaphore.use(1, () => Promise.reject(error))).rejects.toBe(error);
+        expect(semaphore.keys).toEqual([]);
+    });
+});
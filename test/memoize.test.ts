@@ -0,0 +1,165 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { sleep } from "~/async";
+import { memoizeAsync } from "~/memoize";
+
+describe("memoizeAsync", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should share a single in-flight promise between concurrent callers", async () => {
+        const fn = vi.fn((id: number) => sleep(100, `user:${id}`));
+        const getUser = memoizeAsync(fn);
+
+        const first = getUser(1);
+        const second = getUser(1);
+        const other = getUser(2);
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect(first).toBe(second);
+        expect(await first).toBe("user:1");
+        expect(await other).toBe("user:2");
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    test("should cache resolved values until the ttl elapses", async () => {
+        const fn = vi.fn(async () => Date.now());
+        const memoized = memoizeAsync(fn, { ttl: 1000 });
+
+        const value = await memoized();
+        await vi.advanceTimersByTimeAsync(999);
+        expect(await memoized()).toBe(value);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await memoized()).not.toBe(value);
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    test("should use a custom key", async () => {
+        const fn = vi.fn(async (user: { id: number; name: string }) => user.name);
+        const memoized = memoizeAsync(fn, { key: user => user.id });
+
+        await memoized({ id: 1, name: "alice" });
+        expect(await memoized({ id: 1, name: "bob" })).toBe("alice");
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test("should evict the least recently used key when full", async () => {
+        const fn = vi.fn(async (id: number) => id);
+        const memoized = memoizeAsync(fn, { key: id => id, maxSize: 2 });
+
+        await memoized(1);
+        await memoized(2);
+        await memoized(1); // 2 is now the least recently used
+        await memoized(3);
+        expect(fn).toHaveBeenCalledTimes(3);
+
+        await memoized(1);
+        expect(fn).toHaveBeenCalledTimes(3);
+        await memoized(2);
+        expect(fn).toHaveBeenCalledTimes(4);
+    });
+
+    test("should share but not cache rejections by default", async () => {
+        const fn = vi.fn().mockRejectedValueOnce(new Error("fail")).mockResolvedValue("ok");
+        const memoized = memoizeAsync(fn);
+
+        const first = memoized();
+        const second = memoized();
+        await expect(first).rejects.toThrow("fail");
+        await expect(second).rejects.toThrow("fail");
+
+        expect(await memoized()).toBe("ok");
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    test("should cache rejections when enabled", async () => {
+        const fn = vi.fn().mockRejectedValueOnce(new Error("fail")).mockResolvedValue("ok");
+        const memoized = memoizeAsync(fn, { ttl: 1000, cacheRejections: true });
+
+        await expect(memoized()).rejects.toThrow("fail");
+        await expect(memoized()).rejects.toThrow("fail");
+        expect(fn).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(await memoized()).toBe("ok");
+    });
+
+    test("should serve stale values while revalidating in the background", async () => {
+        let version = 0;
+        const fn = vi.fn(() => sleep(100, ++version));
+        const memoized = memoizeAsync(fn, { ttl: 1000, staleWhileRevalidate: 5000 });
+
+        const first = memoized();
+        await vi.advanceTimersByTimeAsync(100);
+        expect(await first).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(await memoized()).toBe(1);
+        expect(await memoized()).toBe(1);
+        expect(fn).toHaveBeenCalledTimes(2);
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(await memoized()).toBe(2);
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    test("should keep serving the stale value when revalidating fails", async () => {
+        const fn = vi
+            .fn()
+            .mockResolvedValueOnce("old")
+            .mockRejectedValueOnce(new Error("fail"))
+            .mockResolvedValue("new");
+        const memoized = memoizeAsync(fn, { ttl: 1000, staleWhileRevalidate: 5000 });
+
+        await memoized();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(await memoized()).toBe("old");
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(await memoized()).toBe("old");
+        await vi.advanceTimersByTimeAsync(0);
+        expect(await memoized()).toBe("new");
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    test("should not serve values past the stale window", async () => {
+        let version = 0;
+        const fn = vi.fn(async () => ++version);
+        const memoized = memoizeAsync(fn, { ttl: 1000, staleWhileRevalidate: 1000 });
+
+        await memoized();
+        await vi.advanceTimersByTimeAsync(2000);
+
+        expect(await memoized()).toBe(2);
+    });
+
+    test("should invalidate a key, and clear all keys", async () => {
+        const fn = vi.fn(async (id: number) => id);
+        const memoized = memoizeAsync(fn, { key: id => id });
+
+        await memoized(1);
+        await memoized(2);
+
+        expect(memoized.invalidate(1)).toBe(true);
+        expect(memoized.invalidate(1)).toBe(false);
+        await memoized(1);
+        await memoized(2);
+        expect(fn).toHaveBeenCalledTimes(3);
+
+        memoized.clear();
+        await memoized(1);
+        await memoized(2);
+        expect(fn).toHaveBeenCalledTimes(5);
+    });
+
+    test("should reject an invalid maxSize", () => {
+        expect(() => memoizeAsync(async () => 1, { maxSize: 0 })).toThrow(
+            "memoizeAsync maxSize must be a positive integer"
+        );
+    });
+});
@@ -0,0 +1,178 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { sleep, withRetry } from "~/async";
+import { TimeoutError } from "~/error";
+import { Recorder } from "~/metrics";
+import { Mutex } from "~/mutex";
+import { Semaphore } from "~/semaphore";
+import { TaskPool } from "~/task-pool";
+
+describe("metrics", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should summarize recorded durations by nearest rank", () => {
+        const recorder = new Recorder();
+        expect(recorder.percentiles()).toEqual({ count: 0, min: 0, max: 0, mean: 0, p50: 0, p90: 0, p95: 0, p99: 0 });
+
+        for (let ms = 100; ms >= 1; ms--) recorder.record(ms);
+        expect(recorder.percentiles()).toEqual({
+            count: 100,
+            min: 1,
+            max: 100,
+            mean: 50.5,
+            p50: 50,
+            p90: 90,
+            p95: 95,
+            p99: 99,
+        });
+    });
+
+    test("should only keep the most recent samples", () => {
+        const recorder = new Recorder(3);
+        [1, 2, 3, 4, 5].forEach(ms => recorder.record(ms));
+        expect(recorder.percentiles()).toMatchObject({ count: 3, min: 3, max: 5 });
+    });
+
+    test("should emit lock events with timestamps and durations", async () => {
+        const onEvent = vi.fn();
+        const semaphore = new Semaphore(1, { onEvent });
+
+        const release = await semaphore.acquire();
+        const next = semaphore.acquire();
+        await vi.advanceTimersByTimeAsync(100);
+        release();
+        await vi.advanceTimersByTimeAsync(50);
+        (await next)();
+
+        expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+            { type: "acquire", timestamp: 0, permits: 1, waitMs: 0 },
+            { type: "enqueue", timestamp: 0, permits: 1 },
+            // the release is reported before the next waiter is granted its permit
+            { type: "release", timestamp: 100, permits: 1, heldMs: 100 },
+            { type: "acquire", timestamp: 100, permits: 1, waitMs: 100 },
+            { type: "release", timestamp: 150, permits: 1, heldMs: 50 },
+        ]);
+    });
+
+    test("should keep granting and releasing permits when the hook throws", async () => {
+        const onEvent = vi.fn(() => {
+            throw new Error("broken hook");
+        });
+        const semaphore = new Semaphore(1, { onEvent });
+
+        const release = await semaphore.acquire();
+        const next = semaphore.acquire();
+        expect(release()).toBe(true);
+
+        (await next)();
+        expect(semaphore.stats()).toMatchObject({ acquired: 2, used: 0, waiting: 0 });
+        expect(onEvent).toHaveBeenCalledTimes(5);
+    });
+
+    test("should count timeouts, and summarize wait and hold times", async () => {
+        const onEvent = vi.fn();
+        const mutex = new Mutex({ onEvent });
+
+        const release = await mutex.acquire();
+        const promise = mutex.acquire({ timeoutMs: 200 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(200);
+        await assertion;
+        release();
+
+        expect(onEvent).toHaveBeenCalledWith({ type: "timeout", timestamp: 200, permits: 1, waitMs: 200 });
+        expect(mutex.stats()).toEqual({
+            acquired: 1,
+            enqueued: 1,
+            timedOut: 1,
+            rejected: 0,
+            used: 0,
+            waiting: 0,
+            waitMs: expect.objectContaining({ count: 1, max: 0 }),
+            heldMs: expect.objectContaining({ count: 1, max: 200 }),
+        });
+    });
+
+    test("should emit task events, and summarize wait and run times", async () => {
+        const onEvent = vi.fn();
+        const pool = new TaskPool<number>(1, { onEvent });
+        const error = new Error("fail");
+
+        const first = pool.submit(() => sleep(100, 1));
+        const second = pool.submit(() => sleep(50).then(() => Promise.reject(error)));
+        const assertion = expect(second).rejects.toBe(error);
+        await vi.advanceTimersByTimeAsync(150);
+        expect(await first).toBe(1);
+        await assertion;
+
+        const taskEvents = onEvent.mock.calls.map(([event]) => event).filter(event => event.type.startsWith("task-"));
+        expect(taskEvents).toEqual([
+            { type: "task-start", timestamp: 0, waitMs: 0 },
+            { type: "task-success", timestamp: 100, waitMs: 0, runMs: 100 },
+            { type: "task-start", timestamp: 100, waitMs: 100 },
+            { type: "task-failure", timestamp: 150, waitMs: 100, runMs: 50, error },
+        ]);
+        expect(pool.stats()).toMatchObject({
+            started: 2,
+            succeeded: 1,
+            failed: 1,
+            saturated: 1,
+            timedOut: 0,
+            running: 0,
+            queued: 0,
+            waitMs: { count: 2, min: 0, max: 100 },
+            runMs: { count: 2, min: 50, max: 100 },
+        });
+    });
+
+    test("should resolve a task with its result when the hook throws", async () => {
+        const pool = new TaskPool<string>(1, {
+            onEvent: () => {
+                throw new Error("broken hook");
+            },
+        });
+
+        expect(await pool.submit(async () => "ok")).toBe("ok");
+        expect(pool.stats()).toMatchObject({ started: 1, succeeded: 1, failed: 0, running: 0 });
+    });
+
+    test("should emit retry events", async () => {
+        const onEvent = vi.fn();
+        const error = new Error("fail");
+        const fn = vi.fn().mockRejectedValueOnce(error).mockResolvedValue("ok");
+        const retried = withRetry(fn, { tries: 2, wait: () => 100, onEvent });
+
+        const promise = retried();
+        await vi.advanceTimersByTimeAsync(100);
+        expect(await promise).toBe("ok");
+
+        expect(onEvent).toHaveBeenCalledWith({
+            type: "retry",
+            timestamp: 0,
+            attempt: 0,
+            delayMs: 100,
+            elapsedMs: 0,
+            error,
+        });
+    });
+
+    test("should keep retrying when the hooks throw", async () => {
+        const hook = () => {
+            throw new Error("metrics exporter down");
+        };
+        const fn = vi.fn().mockRejectedValueOnce(new Error("fail")).mockResolvedValue("ok");
+        const retried = withRetry(fn, { tries: 2, wait: () => 100, onRetry: hook, onEvent: hook });
+
+        const promise = retried();
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect(await promise).toBe("ok");
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+});
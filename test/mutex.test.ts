@@ -102,6 +102,20 @@ describe("Mutex", () => {
 
             expect(results).toEqual(["task 1 completed", "task 2 completed", "task 3 completed"]);
         });
+
+        test("should stop waiting for the lock when aborted", async () => {
+            const mutex = new Mutex();
+            const controller = new AbortController();
+            const release = await mutex.acquire();
+
+            const waiting = mutex.acquire({ signal: controller.signal });
+            controller.abort("stop");
+            await expect(waiting).rejects.toBe("stop");
+
+            release();
+            const release2 = await mutex.acquire();
+            release2();
+        });
     });
 
     describe("use", () => {
@@ -0,0 +1,198 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { abortable, sleep } from "~/async";
+import { CircuitBreaker } from "~/circuit-breaker";
+import { CircuitOpenError, RetryError, TimeoutError } from "~/error";
+import { pipeline } from "~/pipeline";
+import { RateLimiter } from "~/rate-limiter";
+import { Semaphore } from "~/semaphore";
+import { TaskPool } from "~/task-pool";
+
+describe("pipeline", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should run layers in the order they are added, outermost first", async () => {
+        const order: string[] = [];
+        const policy = pipeline()
+            .use(async (context, next) => {
+                order.push("outer:before");
+                const result = await next(context);
+                order.push("outer:after");
+                return result;
+            })
+            .use(async (context, next) => {
+                order.push("inner:before");
+                const result = await next(context);
+                order.push("inner:after");
+                return result;
+            });
+
+        const result = await policy.execute(async () => {
+            order.push("call");
+            return 42;
+        });
+
+        expect(result).toBe(42);
+        expect(order).toEqual(["outer:before", "inner:before", "call", "inner:after", "outer:after"]);
+    });
+
+    test("should leave the original pipeline unchanged when adding layers", async () => {
+        const layer = vi.fn((context, next) => next(context));
+        const base = pipeline();
+        base.use(layer);
+
+        await base.execute(async () => "ok");
+
+        expect(layer).not.toHaveBeenCalled();
+    });
+
+    test("should wrap a function, keeping its arguments as is", async () => {
+        const fn = vi.fn(async (a: number, b = "b") => `${a}${b}`);
+        const wrapped = pipeline().retry({ tries: 2 }).wrap(fn);
+
+        expect(await wrapped(1)).toBe("1b");
+        expect(fn).toHaveBeenCalledWith(1);
+    });
+
+    test("should pass a signal before the arguments of an abortable function", async () => {
+        const fn = vi.fn(async (_signal: AbortSignal, a: number, b: string) => `${a}${b}`);
+        const wrapped = pipeline().retry({ tries: 2 }).wrap(abortable(fn));
+
+        expect(await wrapped(1, "a")).toBe("1a");
+        expect(fn).toHaveBeenCalledWith(expect.any(AbortSignal), 1, "a");
+    });
+
+    test("should time out each attempt when the timeout is inside the retry", async () => {
+        const fn = vi.fn((signal: AbortSignal) => sleep({ ms: 1000, signal }).then(() => "late"));
+        const wrapped = pipeline()
+            .retry({ tries: 3, wait: () => 0 })
+            .timeout(100)
+            .wrap(abortable(fn));
+
+        const promise = wrapped(new AbortController().signal);
+        const assertion = expect(promise).rejects.toThrow(RetryError);
+        await vi.advanceTimersByTimeAsync(400);
+        await assertion;
+
+        expect(fn).toHaveBeenCalledTimes(3);
+        await promise.catch(error => expect(error.lastError).toBeInstanceOf(TimeoutError));
+    });
+
+    test("should time out the call as a whole when the timeout is outside the retry", async () => {
+        const fn = vi.fn(() => Promise.reject(new Error("fail")));
+        const wrapped = pipeline()
+            .timeout(250)
+            .retry({ tries: 10, wait: () => 100 })
+            .wrap(fn);
+
+        const promise = wrapped();
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+        await vi.advanceTimersByTimeAsync(250);
+        await assertion;
+
+        // attempts at 0, 100 and 200, then the timeout aborts the wait before the next one
+        expect(fn).toHaveBeenCalledTimes(3);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    test("should let layers read the attempt, arguments and data of each call", async () => {
+        const seen: Array<{ attempt: number; args: any[]; data: string }> = [];
+        const fn = vi.fn().mockRejectedValueOnce(new Error("fail")).mockResolvedValue("ok");
+        const wrapped = pipeline<string>()
+            .retry({ tries: 2, wait: () => 0 })
+            .use((context, next) => {
+                seen.push({ attempt: context.attempt, args: context.args, data: context.data });
+                return next(context);
+            })
+            .wrap(
+                abortable((_signal, id: number) => fn(id)),
+                (...args) => `user:${args.join(",")}`
+            );
+
+        const promise = wrapped(7, new AbortController().signal);
+        await vi.runAllTimersAsync();
+
+        expect(await promise).toBe("ok");
+        expect(seen).toEqual([
+            { attempt: 0, args: [7], data: "user:7" },
+            { attempt: 1, args: [7], data: "user:7" },
+        ]);
+    });
+
+    test("should pass data and a signal to execute", async () => {
+        const controller = new AbortController();
+        const result = await pipeline<{ user: string }>()
+            .timeout(1000)
+            .execute(async context => `${context.data.user}:${context.signal.aborted}`, {
+                data: { user: "alice" },
+                signal: controller.signal,
+            });
+
+        expect(result).toBe("alice:false");
+    });
+
+    test("should cancel the call when the caller's signal aborts", async () => {
+        const controller = new AbortController();
+        const fn = vi.fn((signal: AbortSignal) => sleep({ ms: 1000, signal }));
+        const wrapped = pipeline().retry({ tries: 3 }).timeout(5000).wrap(abortable(fn));
+
+        const promise = wrapped(controller.signal);
+        const assertion = expect(promise).rejects.toThrow("stop");
+        controller.abort(new Error("stop"));
+        await assertion;
+
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test("should limit concurrency with a semaphore", async () => {
+        const semaphore = new Semaphore(1);
+        let running = 0;
+        let peak = 0;
+        const wrapped = pipeline()
+            .concurrency(semaphore)
+            .wrap(async () => {
+                peak = Math.max(peak, ++running);
+                await sleep(100);
+                running--;
+            });
+
+        const all = Promise.all([wrapped(), wrapped(), wrapped()]);
+        await vi.advanceTimersByTimeAsync(300);
+        await all;
+
+        expect(peak).toBe(1);
+    });
+
+    test("should limit concurrency with a task pool", async () => {
+        const pool = new TaskPool<any>(2);
+        const wrapped = pipeline()
+            .concurrency(pool)
+            .wrap(() => sleep(100, "done"));
+
+        const all = Promise.all([wrapped(), wrapped(), wrapped()]);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(pool.running).toBe(2);
+        expect(pool.queued).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(200);
+        expect(await all).toEqual(["done", "done", "done"]);
+    });
+
+    test("should run through a rate limiter and circuit breaker", async () => {
+        const limiter = new RateLimiter({ limit: 1, intervalMs: 1000 });
+        const breaker = new CircuitBreaker({ failureThreshold: 1 });
+        const fn = vi.fn(() => Promise.reject(new Error("fail")));
+        const wrapped = pipeline().circuitBreaker(breaker).rateLimit(limiter).wrap(fn);
+
+        await expect(wrapped()).rejects.toThrow("fail");
+        await expect(wrapped()).rejects.toThrow(CircuitOpenError);
+        expect(fn).toHaveBeenCalledTimes(1);
+        expect(limiter.available).toBe(0);
+    });
+});
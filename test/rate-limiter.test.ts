@@ -0,0 +1,98 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { TimeoutError } from "~/error";
+import { RateLimiter } from "~/rate-limiter";
+
+describe("RateLimiter", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("should throw error if options are invalid", () => {
+        expect(() => new RateLimiter({ limit: 0, intervalMs: 1000 })).toThrow(
+            "RateLimiter limit must be a positive integer"
+        );
+        expect(() => new RateLimiter({ limit: 1, intervalMs: 0 })).toThrow(
+            "RateLimiter intervalMs must be a positive number"
+        );
+    });
+
+    test("should reject costs larger than the limit straight away", async () => {
+        const limiter = new RateLimiter({ limit: 5, intervalMs: 1000 });
+
+        await expect(limiter.acquire(6)).rejects.toThrow("Cannot acquire 6 from a rate limiter with limit 5");
+        expect(() => limiter.tryAcquire(0)).toThrow("RateLimiter cost must be a positive integer");
+    });
+
+    describe("token-bucket", () => {
+        test("should allow a burst up to the limit, then refill over time", async () => {
+            const limiter = new RateLimiter({ limit: 2, intervalMs: 1000 });
+
+            expect(limiter.tryAcquire()).toBe(true);
+            expect(limiter.tryAcquire()).toBe(true);
+            expect(limiter.tryAcquire()).toBe(false);
+
+            vi.advanceTimersByTime(500);
+            expect(limiter.available).toBe(1);
+            expect(limiter.tryAcquire()).toBe(true);
+        });
+
+        test("should serve waiters in order as tokens refill", async () => {
+            const limiter = new RateLimiter({ limit: 2, intervalMs: 1000 });
+            const order: number[] = [];
+
+            await limiter.acquire(2);
+            const first = limiter.acquire(2).then(() => order.push(1));
+            const second = limiter.acquire(1).then(() => order.push(2));
+
+            expect(limiter.tryAcquire()).toBe(false);
+            expect(limiter.waiting).toBe(2);
+
+            await vi.advanceTimersByTimeAsync(999);
+            expect(order).toEqual([]);
+
+            await vi.advanceTimersByTimeAsync(1);
+            await first;
+            expect(order).toEqual([1]);
+
+            await vi.advanceTimersByTimeAsync(500);
+            await second;
+            expect(order).toEqual([1, 2]);
+        });
+    });
+
+    describe("sliding-window", () => {
+        test("should allow at most the limit within any interval", async () => {
+            const limiter = new RateLimiter({ limit: 2, intervalMs: 1000, mode: "sliding-window" });
+            const times: number[] = [];
+            const start = Date.now();
+
+            const calls = [1, 2, 3, 4, 5].map(() => limiter.use(() => times.push(Date.now() - start)));
+            await vi.advanceTimersByTimeAsync(400);
+            expect(times).toEqual([0, 0]);
+
+            await vi.advanceTimersByTimeAsync(3000);
+            await Promise.all(calls);
+            expect(times).toEqual([0, 0, 1000, 1000, 2000]);
+        });
+    });
+
+    test("should stop waiting on timeout, and serve the waiters behind", async () => {
+        const limiter = new RateLimiter({ limit: 2, intervalMs: 1000, mode: "sliding-window" });
+
+        await limiter.acquire(2);
+        const large = expect(limiter.acquire(2, { timeoutMs: 100 })).rejects.toThrow(TimeoutError);
+        const small = limiter.acquire(1);
+
+        await vi.advanceTimersByTimeAsync(100);
+        await large;
+        expect(limiter.waiting).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(900);
+        await small;
+        expect(limiter.waiting).toBe(0);
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect } from "vitest";
+import { TimeoutError } from "~/error";
+import { RWLock } from "~/rw-lock";
+
+describe("RWLock", () => {
+    test("should allow concurrent readers", async () => {
+        const lock = new RWLock();
+
+        const release1 = await lock.acquireRead();
+        const release2 = await lock.acquireRead();
+
+        expect(lock.readers).toBe(2);
+        expect(lock.isWriteLocked).toBe(false);
+        expect(lock.tryAcquireWrite()).toBeNull();
+
+        release1();
+        release2();
+        expect(lock.readers).toBe(0);
+    });
+
+    test("should give writers exclusive access", async () => {
+        const lock = new RWLock();
+        const order: string[] = [];
+
+        const release = await lock.acquireWrite();
+        const reader = lock.useRead(() => order.push("read"));
+        const writer = lock.useWrite(() => order.push("write"));
+
+        expect(lock.isWriteLocked).toBe(true);
+        expect(lock.tryAcquireRead()).toBeNull();
+
+        order.push("release");
+        release();
+        await Promise.all([reader, writer]);
+
+        expect(order).toEqual(["release", "read", "write"]);
+        expect(lock.isWriteLocked).toBe(false);
+    });
+
+    test("should return false when release is called multiple times", async () => {
+        const lock = new RWLock();
+        const releaseRead = await lock.acquireRead();
+        expect(releaseRead()).toBe(true);
+        expect(releaseRead()).toBe(false);
+
+        const releaseWrite = await lock.acquireWrite();
+        expect(releaseWrite()).toBe(true);
+        expect(releaseWrite()).toBe(false);
+        expect(lock.readers).toBe(0);
+    });
+
+    test("should serve requests in order by default", async () => {
+        const lock = new RWLock();
+        const order: string[] = [];
+
+        const release = await lock.acquireRead();
+        const writer = lock.useWrite(() => order.push("write"));
+        const reader = lock.useRead(() => order.push("read"));
+
+        // A reader arriving after a waiting writer waits its turn
+        expect(lock.tryAcquireRead()).toBeNull();
+
+        release();
+        await Promise.all([writer, reader]);
+
+        expect(order).toEqual(["write", "read"]);
+    });
+
+    test("should let waiting writers go ahead of waiting readers when preferring writers", async () => {
+        const lock = new RWLock({ preferWriters: true });
+        const order: string[] = [];
+
+        const release = await lock.acquireWrite();
+        const reader = lock.useRead(() => order.push("read"));
+        const writer = lock.useWrite(() => order.push("write"));
+
+        release();
+        await Promise.all([reader, writer]);
+
+        expect(order).toEqual(["write", "read"]);
+    });
+
+    test("should downgrade a write lock to a read lock atomically", async () => {
+        const lock = new RWLock();
+        const order: string[] = [];
+
+        const release = await lock.acquireWrite();
+        const reader = lock.useRead(() => order.push("read"));
+        const writer = lock.useWrite(() => order.push("write"));
+
+        const releaseRead = release.downgrade();
+        await reader;
+
+        // The waiting reader joins the downgraded lock, the writer still waits
+        expect(order).toEqual(["read"]);
+        expect(lock.readers).toBe(1);
+        expect(lock.isWriteLocked).toBe(false);
+        expect(release()).toBe(false);
+        expect(() => release.downgrade()).toThrow("Cannot downgrade a write lock that has been released");
+
+        releaseRead();
+        await writer;
+        expect(order).toEqual(["read", "write"]);
+    });
+
+    test("should stop waiting on timeout and serve the waiters behind", async () => {
+        const lock = new RWLock();
+        const releaseRead = await lock.acquireRead();
+
+        const writer = lock.acquireWrite({ timeoutMs: 10 });
+        const reader = lock.acquireRead();
+
+        await expect(writer).rejects.toThrow(TimeoutError);
+        const releaseRead2 = await reader;
+        expect(lock.readers).toBe(2);
+
+        releaseRead();
+        releaseRead2();
+        expect(lock.readers).toBe(0);
+    });
+});
@@ -1,4 +1,5 @@
 import { describe, test, expect, vi } from "vitest";
+import { QueueFullError, TimeoutError } from "~/error";
 import { Semaphore } from "~/semaphore";
 
 describe("Semaphore", () => {
@@ -127,6 +128,47 @@ describe("Semaphore", () => {
             expect(order).toEqual([1, 2, 3]);
             expect(semaphore.used).toBe(0);
         });
+
+        test("should reject with TimeoutError and leave the queue on timeout", async () => {
+            vi.useFakeTimers();
+            const semaphore = new Semaphore(1);
+            const release1 = await semaphore.acquire();
+
+            const timedOut = semaphore.acquire({ timeoutMs: 100 });
+            const next = semaphore.acquire();
+            vi.advanceTimersByTime(100);
+            await expect(timedOut).rejects.toThrow(TimeoutError);
+
+            // The permit skips the timed out waiter
+            release1();
+            const release2 = await next;
+            expect(semaphore.used).toBe(1);
+
+            release2();
+            expect(semaphore.used).toBe(0);
+            vi.useRealTimers();
+        });
+
+        test("should reject with the abort reason and never grant a permit", async () => {
+            const semaphore = new Semaphore(1);
+            const controller = new AbortController();
+            const reason = new Error("cancelled");
+            const release1 = await semaphore.acquire();
+
+            const aborted = semaphore.acquire({ signal: controller.signal });
+            controller.abort(reason);
+            await expect(aborted).rejects.toBe(reason);
+
+            release1();
+            expect(semaphore.used).toBe(0);
+            expect(semaphore.permits).toBe(1);
+        });
+
+        test("should reject if the signal is already aborted", async () => {
+            const semaphore = new Semaphore(1);
+            await expect(semaphore.acquire({ signal: AbortSignal.abort("stop") })).rejects.toBe("stop");
+            expect(semaphore.used).toBe(0);
+        });
     });
 
     describe("use", () => {
@@ -177,4 +219,314 @@ describe("Semaphore", () => {
             expect(semaphore.used).toBe(0);
         });
     });
+
+    describe("weighted permits", () => {
+        test("should acquire and release several permits at once", async () => {
+            const semaphore = new Semaphore(5);
+            const release = await semaphore.acquire(3);
+
+            expect(semaphore.used).toBe(3);
+            expect(semaphore.permits).toBe(2);
+            expect(semaphore.tryAcquire(3)).toBeNull();
+
+            expect(release()).toBe(true);
+            expect(semaphore.used).toBe(0);
+        });
+
+        test("should reject requests larger than the capacity straight away", async () => {
+            const semaphore = new Semaphore(2);
+
+            await expect(semaphore.acquire(3)).rejects.toThrow("Cannot acquire 3 permits");
+            expect(() => semaphore.tryAcquire(3)).toThrow("Cannot acquire 3 permits");
+            await expect(semaphore.acquire(0)).rejects.toThrow("Semaphore permits must be a positive integer");
+        });
+
+        test("should not let smaller requests overtake a large waiting request", async () => {
+            const semaphore = new Semaphore(4);
+            const order: string[] = [];
+            const release1 = await semaphore.acquire(2);
+
+            const large = semaphore.acquire(4).then(release => {
+                order.push("large");
+                return release;
+            });
+            const small = semaphore.acquire(1).then(release => {
+                order.push("small");
+                return release;
+            });
+
+            // Permits are free, but the large request is first in line
+            expect(semaphore.tryAcquire(1)).toBeNull();
+
+            release1();
+            (await large)();
+            (await small)();
+
+            expect(order).toEqual(["large", "small"]);
+            expect(semaphore.used).toBe(0);
+        });
+
+        test("should serve waiters behind a cancelled large request", async () => {
+            const semaphore = new Semaphore(3);
+            const controller = new AbortController();
+            const release1 = await semaphore.acquire(2);
+
+            const large = semaphore.acquire(3, { signal: controller.signal });
+            const small = semaphore.acquire(1);
+            controller.abort("stop");
+
+            await expect(large).rejects.toBe("stop");
+            const release2 = await small;
+            expect(semaphore.used).toBe(3);
+
+            release1();
+            release2();
+            expect(semaphore.used).toBe(0);
+        });
+
+        test("should use several permits for the duration of the function", async () => {
+            const semaphore = new Semaphore(3);
+            const result = await semaphore.use(async () => semaphore.used, 2);
+
+            expect(result).toBe(2);
+            expect(semaphore.used).toBe(0);
+        });
+    });
+
+    describe("priority", () => {
+        test("should serve higher priority waiters first, and FIFO within a priority", async () => {
+            const semaphore = new Semaphore(1);
+            const order: string[] = [];
+            const release = await semaphore.acquire();
+
+            const waiters = [
+                semaphore.use(() => order.push("low"), { priority: -1 }),
+                semaphore.use(() => order.push("normal1")),
+                semaphore.use(() => order.push("high"), { priority: 10 }),
+                semaphore.use(() => order.push("normal2")),
+            ];
+
+            release();
+            await Promise.all(waiters);
+
+            expect(order).toEqual(["high", "normal1", "normal2", "low"]);
+        });
+
+        test("should age waiters so low priority ones are not starved", async () => {
+            vi.useFakeTimers();
+            const semaphore = new Semaphore(1, { agingMs: 100 });
+            const order: string[] = [];
+            const release = await semaphore.acquire();
+
+            const low = semaphore.use(() => order.push("low"), { priority: 0 });
+            vi.advanceTimersByTime(500);
+            const high = semaphore.use(() => order.push("high"), { priority: 3 });
+
+            release();
+            await Promise.all([low, high]);
+
+            // The low priority waiter has aged to priority 5
+            expect(order).toEqual(["low", "high"]);
+            vi.useRealTimers();
+        });
+
+        test("should keep the order of thousands of waiters, across priorities and cancellations", async () => {
+            const semaphore = new Semaphore(1);
+            const order: number[] = [];
+            const controller = new AbortController();
+            const release = await semaphore.acquire();
+
+            const waiters = Array.from({ length: 5000 }, (_, i) =>
+                semaphore
+                    .use(() => order.push(i), { priority: i % 2, signal: i % 7 === 0 ? controller.signal : undefined })
+                    .catch(() => {})
+            );
+            controller.abort();
+
+            release();
+            await Promise.all(waiters);
+
+            const served = (parity: number) =>
+                Array.from({ length: 5000 }, (_, i) => i).filter(i => i % 2 === parity && i % 7 !== 0);
+            expect(order).toEqual([...served(1), ...served(0)]);
+            expect(semaphore.waiting).toBe(0);
+        });
+
+        test("should serve the earliest waiter when aged priorities tie", async () => {
+            vi.useFakeTimers();
+            const semaphore = new Semaphore(1, { agingMs: 100 });
+            const order: string[] = [];
+            const release = await semaphore.acquire();
+
+            const low = semaphore.use(() => order.push("low"), { priority: 0 });
+            vi.advanceTimersByTime(200);
+            const high = semaphore.use(() => order.push("high"), { priority: 2 });
+
+            release();
+            await Promise.all([low, high]);
+
+            expect(order).toEqual(["low", "high"]);
+            vi.useRealTimers();
+        });
+
+        test("should throw error if agingMs is invalid", () => {
+            expect(() => new Semaphore(1, { agingMs: 0 })).toThrow("Semaphore agingMs must be a positive number");
+        });
+    });
+
+    describe("pause", () => {
+        test("should stop granting permits until resumed", async () => {
+            const semaphore = new Semaphore(2);
+            semaphore.pause();
+
+            expect(semaphore.isPaused).toBe(true);
+            expect(semaphore.tryAcquire()).toBeNull();
+
+            const waiting = semaphore.acquire();
+            expect(semaphore.waiting).toBe(1);
+
+            semaphore.resume();
+            const release = await waiting;
+            expect(semaphore.used).toBe(1);
+            release();
+        });
+    });
+
+    describe("rejectWaiting", () => {
+        test("should reject waiters without affecting holders", async () => {
+            const semaphore = new Semaphore(1);
+            const release = await semaphore.acquire();
+            const waiting = semaphore.acquire();
+
+            semaphore.rejectWaiting(new Error("closed"));
+
+            await expect(waiting).rejects.toThrow("closed");
+            expect(semaphore.waiting).toBe(0);
+            expect(semaphore.used).toBe(1);
+            expect(release()).toBe(true);
+        });
+    });
+
+    describe("resize", () => {
+        test("should wake queued waiters when growing", async () => {
+            const semaphore = new Semaphore(2);
+            const release1 = await semaphore.acquire(2);
+            const waiting = semaphore.acquire(2);
+
+            semaphore.resize(4);
+            const release2 = await waiting;
+
+            expect(semaphore.capacity).toBe(4);
+            expect(semaphore.used).toBe(4);
+            expect(semaphore.permits).toBe(0);
+
+            release1();
+            release2();
+            expect(semaphore.permits).toBe(4);
+        });
+
+        test("should let holders finish and hold back new permits when shrinking", async () => {
+            const semaphore = new Semaphore(3);
+            const releases = [semaphore.tryAcquire(), semaphore.tryAcquire(), semaphore.tryAcquire()];
+            let acquired = false;
+            const waiting = semaphore.acquire().then(release => {
+                acquired = true;
+                return release;
+            });
+
+            semaphore.resize(1);
+            expect(semaphore.used).toBe(3);
+            expect(semaphore.permits).toBe(0);
+
+            releases[0]?.();
+            releases[1]?.();
+            await Promise.resolve();
+            expect(acquired).toBe(false);
+            expect(semaphore.used).toBe(1);
+
+            releases[2]?.();
+            (await waiting)();
+            expect(acquired).toBe(true);
+            expect(semaphore.used).toBe(0);
+            expect(semaphore.permits).toBe(1);
+        });
+
+        test("should reject waiters that no longer fit", async () => {
+            const semaphore = new Semaphore(4);
+            const release = await semaphore.acquire(4);
+            const large = semaphore.acquire(3);
+            const small = semaphore.acquire(1);
+
+            semaphore.resize(2);
+            await expect(large).rejects.toThrow("Cannot acquire 3 permits from a semaphore with capacity 2");
+            expect(semaphore.waiting).toBe(1);
+
+            release();
+            (await small)();
+            expect(semaphore.used).toBe(0);
+        });
+
+        test("should throw error if capacity is invalid", () => {
+            const semaphore = new Semaphore(1);
+            expect(() => semaphore.resize(0)).toThrow("Semaphore capacity must be a positive integer");
+        });
+    });
+
+    describe("bounded queue", () => {
+        test("should reject new requests when the queue is full", async () => {
+            const semaphore = new Semaphore(1, { maxQueue: 1 });
+            const release = await semaphore.acquire();
+            const waiting = semaphore.acquire();
+
+            await expect(semaphore.acquire()).rejects.toThrow(QueueFullError);
+            expect(semaphore.rejected).toBe(1);
+
+            release();
+            (await waiting)();
+        });
+
+        test("should drop the oldest waiter to make room when configured", async () => {
+            const semaphore = new Semaphore(1, { maxQueue: 1, overflow: "drop-oldest" });
+            const release = await semaphore.acquire();
+            const oldest = semaphore.acquire();
+            const newest = semaphore.acquire();
+
+            await expect(oldest).rejects.toThrow(QueueFullError);
+            expect(semaphore.rejected).toBe(1);
+            expect(semaphore.waiting).toBe(1);
+
+            release();
+            (await newest)();
+        });
+
+        test("should reject waiters that wait too long", async () => {
+            vi.useFakeTimers();
+            const semaphore = new Semaphore(1, { maxQueueWaitMs: 100 });
+            const release = await semaphore.acquire();
+
+            const waiting = expect(semaphore.acquire()).rejects.toThrow("Waited too long in the queue");
+            vi.advanceTimersByTime(100);
+            await waiting;
+
+            expect(semaphore.rejected).toBe(1);
+            expect(semaphore.waiting).toBe(0);
+            release();
+            expect(vi.getTimerCount()).toBe(0);
+            vi.useRealTimers();
+        });
+
+        test("should not queue at all with maxQueue of 0", async () => {
+            const semaphore = new Semaphore(1, { maxQueue: 0, overflow: "drop-oldest" });
+            const release = await semaphore.acquire();
+
+            await expect(semaphore.acquire()).rejects.toThrow(QueueFullError);
+            release();
+        });
+
+        test("should throw error if maxQueue is invalid", () => {
+            expect(() => new Semaphore(1, { maxQueue: -1 })).toThrow(
+                "Semaphore maxQueue must be a non-negative integer"
+            );
+        });
+    });
 });
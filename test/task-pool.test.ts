@@ -1,4 +1,6 @@
 import { describe, test, expect, vi } from "vitest";
+import { AggregateTaskError, PoolClosedError, QueueFullError, TimeoutError } from "~/error";
+import { RateLimiter } from "~/rate-limiter";
 import { TaskPool } from "~/task-pool";
 
 describe("TaskPool", () => {
@@ -60,6 +62,64 @@ describe("TaskPool", () => {
             expect(task).toHaveBeenCalledTimes(1);
             expect(pool.tasks).toBe(0);
         });
+
+        test("should not run a task that timed out waiting for a slot", async () => {
+            const pool = new TaskPool<string>(1);
+            const running = pool.submit(() => new Promise(resolve => setTimeout(() => resolve("first"), 50)));
+            const task = vi.fn().mockResolvedValue("second");
+
+            await expect(pool.submit(task, { timeoutMs: 10 })).rejects.toThrow(TimeoutError);
+            expect(await running).toBe("first");
+            expect(task).not.toHaveBeenCalled();
+            expect(pool.tasks).toBe(0);
+        });
+
+        test("should start higher priority tasks first", async () => {
+            const pool = new TaskPool<string>(1);
+            const order: string[] = [];
+            const createTask = (id: string) => async () => {
+                order.push(id);
+                return id;
+            };
+
+            await Promise.all([
+                pool.submit(createTask("running")),
+                pool.submit(createTask("background")),
+                pool.submit(createTask("interactive"), { priority: 1 }),
+            ]);
+
+            expect(order).toEqual(["running", "interactive", "background"]);
+        });
+    });
+
+    describe("setConcurrency", () => {
+        test("should start queued tasks when the concurrency grows", async () => {
+            const pool = new TaskPool<number>(1);
+            const executingTasks = { count: 0, max: 0 };
+            let finish!: () => void;
+            const blocker = new Promise<void>(resolve => (finish = resolve));
+
+            const createTask = (id: number) => async () => {
+                executingTasks.count++;
+                executingTasks.max = Math.max(executingTasks.max, executingTasks.count);
+                await blocker;
+                executingTasks.count--;
+                return id;
+            };
+
+            const results = pool.submitAll([createTask(1), createTask(2), createTask(3)]);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            expect(executingTasks.count).toBe(1);
+
+            pool.setConcurrency(3);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            expect(pool.concurrency).toBe(3);
+            expect(executingTasks.count).toBe(3);
+
+            finish();
+            expect(await results).toEqual([1, 2, 3]);
+            expect(pool.tasks).toBe(0);
+        });
     });
 
     describe("submitAll", () => {
@@ -131,5 +191,235 @@ describe("TaskPool", () => {
             expect(results).toEqual([]);
             expect(pool.tasks).toBe(0);
         });
+
+        test("should wait for every task, then throw all failures when not stopping on error", async () => {
+            const pool = new TaskPool<number>(1);
+            const first = new Error("first");
+            const second = new Error("second");
+            const last = vi.fn(async () => 4);
+
+            const tasks = [
+                async () => 1,
+                async () => {
+                    throw first;
+                },
+                async () => {
+                    throw second;
+                },
+                last,
+            ];
+
+            const error = await pool.submitAll(tasks, { stopOnError: false }).catch(error => error);
+
+            expect(error).toBeInstanceOf(AggregateTaskError);
+            expect(error.message).toBe("2 of 4 tasks failed");
+            expect(error.failures).toEqual([
+                { index: 1, reason: first },
+                { index: 2, reason: second },
+            ]);
+            expect(error.results[0]).toEqual({ status: "fulfilled", value: 1 });
+            expect(last).toHaveBeenCalled();
+        });
+
+        test("should resolve normally when no task fails and not stopping on error", async () => {
+            const pool = new TaskPool<number>(2);
+
+            expect(await pool.submitAll([async () => 1, async () => 2], { stopOnError: false })).toEqual([1, 2]);
+        });
+    });
+
+    describe("submitAllSettled", () => {
+        test("should settle every task, in order", async () => {
+            const pool = new TaskPool<number>(2);
+            const error = new Error("task failed");
+
+            const results = await pool.submitAllSettled([
+                async () => 1,
+                async () => {
+                    throw error;
+                },
+                async () => 3,
+            ]);
+
+            expect(results).toEqual([
+                { status: "fulfilled", value: 1 },
+                { status: "rejected", reason: error },
+                { status: "fulfilled", value: 3 },
+            ]);
+            expect(pool.tasks).toBe(0);
+        });
+    });
+
+    describe("lifecycle", () => {
+        const blocked = () => {
+            let finish!: () => void;
+            const promise = new Promise<string>(resolve => (finish = () => resolve("blocked")));
+            return { task: () => promise, finish };
+        };
+
+        test("should count queued and running tasks", async () => {
+            const pool = new TaskPool<string>(1);
+            const { task, finish } = blocked();
+
+            const results = Promise.all([pool.submit(task), pool.submit(task), pool.submit(task)]);
+            expect(pool.running).toBe(1);
+            expect(pool.queued).toBe(2);
+
+            finish();
+            await results;
+            expect(pool.running).toBe(0);
+            expect(pool.queued).toBe(0);
+        });
+
+        test("should resolve onEmpty when the queue is empty, and onIdle when nothing is running", async () => {
+            const pool = new TaskPool<string>(1);
+            const first = blocked();
+            const second = blocked();
+            const events: string[] = [];
+
+            await pool.onIdle();
+            pool.submit(first.task);
+            pool.submit(second.task);
+            const empty = pool.onEmpty().then(() => events.push("empty"));
+            const idle = pool.onIdle().then(() => events.push("idle"));
+
+            first.finish();
+            await empty;
+            expect(pool.running).toBe(1);
+            expect(events).toEqual(["empty"]);
+
+            second.finish();
+            await idle;
+            expect(events).toEqual(["empty", "idle"]);
+        });
+
+        test("should reject new tasks after closing, but run submitted ones", async () => {
+            const pool = new TaskPool<string>(1);
+            const { task, finish } = blocked();
+
+            const running = pool.submit(task);
+            const queued = pool.submit(async () => "queued");
+            pool.close();
+
+            expect(pool.isClosed).toBe(true);
+            await expect(pool.submit(async () => "late")).rejects.toThrow(PoolClosedError);
+
+            finish();
+            await running;
+            expect(await queued).toBe("queued");
+        });
+
+        test("should wait for remaining tasks on shutdown", async () => {
+            const pool = new TaskPool<string>(1);
+            const { task, finish } = blocked();
+
+            pool.submit(task);
+            const queued = pool.submit(async () => "queued");
+            const shutdown = pool.shutdown();
+
+            finish();
+            await shutdown;
+            expect(await queued).toBe("queued");
+            expect(pool.tasks).toBe(0);
+        });
+
+        test("should resume a paused pool on shutdown, running its queued tasks", async () => {
+            const pool = new TaskPool<string>(1);
+            pool.pause();
+            const queued = pool.submit(async () => "queued");
+
+            await pool.shutdown();
+
+            expect(await queued).toBe("queued");
+            expect(pool.isPaused).toBe(false);
+            expect(pool.tasks).toBe(0);
+        });
+
+        test("should reject queued tasks on shutdown with cancelPending", async () => {
+            const pool = new TaskPool<string>(1);
+            const { task, finish } = blocked();
+            const pending = vi.fn();
+
+            const running = pool.submit(task);
+            const queued = pool.submit(pending);
+            const shutdown = pool.shutdown({ cancelPending: true });
+
+            await expect(queued).rejects.toThrow(PoolClosedError);
+            finish();
+            await shutdown;
+            await running;
+            expect(pending).not.toHaveBeenCalled();
+            expect(pool.queued).toBe(0);
+            expect(pool.running).toBe(0);
+        });
+    });
+
+    describe("pause", () => {
+        test("should hold back queued and new tasks until resumed, then start them in order", async () => {
+            const pool = new TaskPool<string>(1);
+            const order: string[] = [];
+            let finish!: () => void;
+            const blocker = new Promise<void>(resolve => (finish = resolve));
+
+            const createTask = (id: string) => async () => {
+                order.push(id);
+                return id;
+            };
+
+            const running = pool.submit(async () => {
+                await blocker;
+                order.push("running");
+                return "running";
+            });
+            const queued = pool.submit(createTask("queued"));
+            pool.pause();
+            const submitted = pool.submit(createTask("submitted"));
+
+            expect(pool.isPaused).toBe(true);
+            finish();
+            expect(await running).toBe("running");
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            expect(order).toEqual(["running"]);
+            expect(pool.queued).toBe(2);
+
+            pool.resume();
+            await Promise.all([queued, submitted]);
+
+            expect(pool.isPaused).toBe(false);
+            expect(order).toEqual(["running", "queued", "submitted"]);
+        });
+    });
+
+    describe("rateLimiter", () => {
+        test("should limit how many tasks start over time", async () => {
+            vi.useFakeTimers();
+            const rateLimiter = new RateLimiter({ limit: 2, intervalMs: 1000, mode: "sliding-window" });
+            const pool = new TaskPool<number>(10, { rateLimiter });
+            const start = Date.now();
+
+            const results = pool.submitAll([1, 2, 3].map(() => async () => Date.now() - start));
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect(await results).toEqual([0, 0, 1000]);
+            vi.useRealTimers();
+        });
+    });
+
+    describe("bulkhead", () => {
+        test("should reject tasks straight away when the queue is full", async () => {
+            const pool = new TaskPool<string>(1, { maxQueue: 1 });
+            let finish!: () => void;
+            const running = pool.submit(() => new Promise(resolve => (finish = () => resolve("running"))));
+            const queued = pool.submit(async () => "queued");
+            const task = vi.fn();
+
+            await expect(pool.submit(task)).rejects.toThrow(QueueFullError);
+            expect(task).not.toHaveBeenCalled();
+            expect(pool.rejected).toBe(1);
+
+            finish();
+            expect(await Promise.all([running, queued])).toEqual(["running", "queued"]);
+        });
     });
 });